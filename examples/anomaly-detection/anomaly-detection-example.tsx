@@ -15,7 +15,7 @@ interface AnomalyDemoState {
     updateProfile: (name: string) => void
 }
 
-const useAnomalyStore = create<AnomalyDemoState>(
+const useAnomalyStore = create<AnomalyDemoState>()(
     zusound(
         set => ({
             counter: 0,
@@ -0,0 +1,320 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createCoreInstance } from '../core'
+import {
+  AnomalyDetector,
+  DetectedAnomaly,
+  DetectorContext,
+  createGrowthDetector,
+  createOscillationDetector,
+  createRangeDetector,
+  createRapidChangeDetector,
+  createTypeChangeDetector,
+  getDetectors,
+  toAnomalyChunk,
+} from '../detectors'
+import { run as runUpdates } from './helpers'
+
+const createContext = <M>(): DetectorContext<M> => ({
+  storeName: 'test',
+  memory: new Map(),
+  resolve: vi.fn(),
+})
+
+/** Feed a path a sequence of values, one update every `stepMs`, collecting the anomalies */
+function run<M>(
+  detector: AnomalyDetector<M>,
+  values: unknown[],
+  { path = 'value', stepMs = 10, context = createContext<M>() } = {}
+): DetectedAnomaly[][] {
+  return values.slice(1).map((currentValue, i) => {
+    const change = { path, currentValue, previousValue: values[i], timestamp: (i + 1) * stepMs }
+    const detected = detector.detect(change, context)
+    if (!detected) return []
+    return Array.isArray(detected) ? detected : [detected]
+  })
+}
+
+describe('createRapidChangeDetector', () => {
+  const detector = createRapidChangeDetector({ count: 3, windowMs: 100 })
+
+  it('fires once `count` changes happen within the window', () => {
+    const results = run(detector, [0, 1, 2, 3, 4, 5])
+    expect(results.map(r => r.length)).toEqual([0, 0, 1, 1, 1])
+    expect(results[2][0]).toMatchObject({ changeCount: 3, windowMs: 100, severity: 'warning' })
+    expect(results[4][0]).toMatchObject({ changeCount: 5, severity: 'critical' })
+  })
+
+  it('forgets changes older than the window', () => {
+    expect(run(detector, [0, 1, 2, 3, 4], { stepMs: 60 }).flat()).toEqual([])
+  })
+
+  it('tracks paths separately', () => {
+    const context = createContext<number[]>()
+    run(detector, [0, 1, 2], { path: 'a', context })
+    expect(run(detector, [0, 1], { path: 'b', context }).flat()).toEqual([])
+  })
+
+  it('forgets paths that stopped changing once their changes are out of the window', () => {
+    const detector = createRapidChangeDetector({ count: 3, windowMs: 100 })
+    const context = createContext<number[]>()
+    for (let i = 0; i < 100; i++) run(detector, [0, 1], { path: `items.${i}`, context })
+    expect(context.memory.size).toBe(100)
+
+    run(detector, [0, 1], { path: 'other', context, stepMs: 500 })
+    expect([...context.memory.keys()]).toEqual(['other'])
+  })
+})
+
+describe('createOscillationDetector', () => {
+  const detector = createOscillationDetector({ reversals: 2, windowMs: 1000 }, 1000)
+
+  it('counts A→B→A reversals', () => {
+    const results = run(detector, ['a', 'b', 'a', 'b', 'a', 'b'])
+    expect(results.map(r => r.length)).toEqual([0, 0, 0, 1, 1])
+    expect(results[3][0]).toMatchObject({ reversals: 2, values: ['b', 'a'], severity: 'warning' })
+  })
+
+  it('compares objects by content', () => {
+    const values = [{ on: true }, { on: false }, { on: true }, { on: false }, { on: true }]
+    expect(run(detector, values)[3]).toHaveLength(1)
+  })
+
+  it('ignores values that keep changing', () => {
+    expect(run(detector, [1, 2, 3, 4, 5]).flat()).toEqual([])
+  })
+
+  it('compares objects within the diff budget passed to getDetectors', () => {
+    const values = [1, 2, 1, 2, 1].map(on => ({ meta: { id: 1 }, on }))
+    const [limited] = getDetectors({ oscillation: { reversals: 2, windowMs: 1000 } }, 2)
+    expect(run(detector, values)[3]).toHaveLength(1)
+    expect(run(limited, values).flat()).toEqual([])
+  })
+
+  it('forgets paths that stopped changing once their history is out of the window', () => {
+    const detector = createOscillationDetector({ reversals: 2, windowMs: 1000 }, 1000)
+    const context = createContext<unknown[]>()
+    for (let i = 0; i < 100; i++) run(detector, [0, 1], { path: `items.${i}`, context })
+    expect(context.memory.size).toBe(100)
+
+    run(detector, [0, 1], { path: 'other', context, stepMs: 5000 })
+    expect([...context.memory.keys()]).toEqual(['other'])
+  })
+})
+
+describe('createRangeDetector', () => {
+  it('fires when a value enters a worse band', () => {
+    const detector = createRangeDetector({
+      pathPattern: 'temp',
+      warning: { min: 10, max: 30 },
+      critical: { min: 0, max: 40 },
+    })
+    const results = run(detector, [20, 35, 38, 45, 35])
+    expect(results[0]).toEqual([
+      expect.objectContaining({ severity: 'warning', threshold: 30, direction: 'up' }),
+    ])
+    expect(results[1]).toEqual([])
+    expect(results[2]).toEqual([
+      expect.objectContaining({ severity: 'critical', threshold: 40, direction: 'up' }),
+    ])
+    // Back to a better band, but not within range yet
+    expect(results[3]).toEqual([])
+    expect(results[0][0]).toMatchObject({ incidentKey: '0:band', resolution: 'recovery' })
+  })
+
+  it('resolves the band incident once the value is back within range', () => {
+    const detector = createRangeDetector({ pathPattern: 'total', critical: { min: 0 } }, 2)
+    const context = createContext()
+    run(detector, [1, -3, -5], { context })
+    expect(context.resolve).not.toHaveBeenCalled()
+    run(detector, [-5, 2], { context })
+    expect(context.resolve).toHaveBeenCalledWith('2:band')
+  })
+
+  it('fires threshold crossings in both directions, one incident per threshold', () => {
+    const detector = createRangeDetector({
+      pathPattern: 'retries',
+      thresholds: [3, { value: 5, severity: 'critical' }],
+    })
+    const anomalies = run(detector, [0, 1, 2, 3, 4, 5, 6, 5, 4, 3, 2, 1, 0]).flat()
+    expect(anomalies.map(a => [a.incidentKey, a.severity])).toEqual([
+      ['0:threshold:3:up', 'warning'],
+      ['0:threshold:5:up', 'critical'],
+      ['0:threshold:5:down', 'critical'],
+      ['0:threshold:3:down', 'warning'],
+    ])
+  })
+
+  it('ignores values that are not finite numbers', () => {
+    const detector = createRangeDetector({ pathPattern: 'x', critical: { min: 0 } })
+    expect(run(detector, [1, '-1', NaN, null]).flat()).toEqual([])
+  })
+
+  it('resolves the band incident once the value is no longer a finite number', () => {
+    const detector = createRangeDetector({ pathPattern: 'x', critical: { min: 0 } })
+    for (const gone of [undefined, null, NaN]) {
+      const context = createContext()
+      expect(run(detector, [1, -1, gone], { context }).flat()).toHaveLength(1)
+      expect(context.resolve).toHaveBeenCalledWith('0:band')
+    }
+  })
+})
+
+describe('createTypeChangeDetector', () => {
+  it('reports a change of shape as critical and a lost value as a warning', () => {
+    const detector = createTypeChangeDetector({})
+    const [toString, , toNull] = run(detector, [1, '1', '1', null])
+    expect(toString[0]).toMatchObject({
+      severity: 'critical',
+      fromType: 'number',
+      toType: 'string',
+    })
+    expect(toNull[0]).toMatchObject({ severity: 'warning', fromType: 'string' })
+  })
+
+  it('ignores the first value and allowed nullable paths', () => {
+    const detector = createTypeChangeDetector({ allowNullable: ['user.*'] })
+    expect(run(detector, [undefined, 1]).flat()).toEqual([])
+    expect(run(detector, [{ id: 1 }, null], { path: 'user.profile' }).flat()).toEqual([])
+    expect(run(detector, [{ id: 1 }, null], { path: 'cart' }).flat()).toHaveLength(1)
+  })
+})
+
+describe('createGrowthDetector', () => {
+  const grow = (n: number) => Array.from({ length: n }, (_, i) => i)
+
+  it('fires after `minSamples` growing updates past the size limit', () => {
+    const detector = createGrowthDetector({ minSamples: 3, maxSize: 2 }, 1000)
+    const results = run(detector, [grow(0), grow(1), grow(2), grow(3), grow(4), grow(5)])
+    expect(results.map(r => r.length)).toEqual([0, 0, 0, 1, 0])
+    expect(results[3][0]).toMatchObject({ sizes: [1, 2, 3, 4], changeCount: 3 })
+  })
+
+  it('measures the rate over the last `minSamples` updates only', () => {
+    const detector = createGrowthDetector({ minSamples: 2, maxRate: 50 }, 1000)
+    const context = createContext<{ size: number; timestamp: number }[]>()
+    const values = [...Array.from({ length: 11 }, (_, i) => grow(i)), grow(20)]
+    const results = run(detector, values, { stepMs: 100, context })
+    expect(results.map(r => r.length)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1])
+    expect(results[10][0]).toMatchObject({ sizes: [9, 10, 20], growthRate: 55 })
+    expect(context.memory.get('value')).toHaveLength(1)
+  })
+
+  it('keeps only the recent samples while growing slowly', () => {
+    const detector = createGrowthDetector({ minSamples: 3, maxRate: 1000 }, 1000)
+    const context = createContext<{ size: number; timestamp: number }[]>()
+    run(
+      detector,
+      Array.from({ length: 50 }, (_, i) => grow(i)),
+      { context }
+    )
+    expect(context.memory.get('value')?.map(sample => sample.size)).toEqual([46, 47, 48, 49])
+  })
+
+  it('starts over when the value shrinks', () => {
+    const detector = createGrowthDetector({ minSamples: 2 }, 1000)
+    expect(run(detector, [grow(1), grow(2), grow(0), grow(1)]).flat()).toEqual([])
+  })
+
+  it('forgets paths that stopped changing for a minute', () => {
+    const detector = createGrowthDetector({ minSamples: 3 }, 1000)
+    const context = createContext<{ size: number; timestamp: number }[]>()
+    for (let i = 0; i < 100; i++) run(detector, [grow(0), grow(1)], { path: `lists.${i}`, context })
+    expect(context.memory.size).toBe(100)
+
+    run(detector, [grow(0), grow(1)], { path: 'other', context, stepMs: 61_000 })
+    expect([...context.memory.keys()]).toEqual(['other'])
+  })
+})
+
+describe('toAnomalyChunk', () => {
+  it('gives each detector its own id and incident on the same path and update', () => {
+    const change = { path: 'count', currentValue: 5, previousValue: 1, timestamp: 42 }
+    const context = createContext()
+    const [range] = getDetectors({ range: [{ pathPattern: 'count', thresholds: [3] }] }, 100)
+    const custom: AnomalyDetector = { name: 'jump', detect: () => ({ severity: 'warning' }) }
+
+    const findings = [range, custom].flatMap(detector => {
+      const detected = detector.detect(change, context)
+      return (Array.isArray(detected) ? detected : [detected]).map(anomaly =>
+        toAnomalyChunk(anomaly as DetectedAnomaly, detector, change, context)
+      )
+    })
+
+    expect(findings.map(f => f.anomaly.type)).toEqual(['range', 'jump'])
+    expect(new Set(findings.map(f => f.anomaly.id)).size).toBe(2)
+    expect(findings.map(f => f.incidentKey)).toEqual(['range:count:0:threshold:3:up', 'jump:count'])
+    expect(findings[1]).toMatchObject({
+      resolution: 'none',
+      anomaly: { path: 'count', storeName: 'test', changeCount: 1, timestamps: [42] },
+    })
+  })
+})
+
+describe('getDetectors', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('ignores custom detectors with a reserved or repeated name', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const detect = () => null
+    const detectors = getDetectors(
+      {
+        growth: {},
+        detectors: [
+          { name: 'growth', detect },
+          { name: 'oscillation', detect },
+          { name: 'fan-out', detect },
+          { name: 'invariant', detect },
+          { name: 'jump', detect },
+          { name: 'jump', detect },
+        ],
+      },
+      100
+    )
+    expect(detectors.map(detector => detector.name)).toEqual(['growth', 'jump'])
+    expect(detectors[0].detect).not.toBe(detect)
+    expect(error).toHaveBeenCalledTimes(5)
+    expect(error).toHaveBeenCalledWith(
+      'Anomaly detector "oscillation" is ignored: its name is already used'
+    )
+    expect(error).toHaveBeenCalledWith(
+      'Anomaly detector "invariant" is ignored: its name is already used'
+    )
+  })
+})
+
+describe('detectors in a store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the built-in memory apart from a custom detector named like it', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const clobber: AnomalyDetector = {
+      name: 'growth',
+      detect: (_, { memory }) => void memory.set('items', 'not samples'),
+    }
+    const items = Array.from({ length: 4 }, (_, n) => ({ items: Array.from({ length: n }) }))
+    const { anomalies } = runUpdates(items, {
+      anomalyDetection: { growth: { minSamples: 2 }, detectors: [clobber] },
+    })
+    expect(anomalies).toEqual([expect.objectContaining({ type: 'growth', path: 'items' })])
+  })
+
+  it('builds the detectors once per options change', () => {
+    const anomalyDetection = { oscillation: { reversals: 2, windowMs: 1000 } }
+    const instance = createCoreInstance()
+    runUpdates([{ on: true }, { on: false }], { anomalyDetection }, instance)
+    const built = instance.detectors?.list
+    runUpdates([{ on: false }, { on: true }], { anomalyDetection }, instance)
+    expect(instance.detectors?.list).toBe(built)
+
+    runUpdates(
+      [{ on: true }, { on: false }],
+      { anomalyDetection: { ...anomalyDetection } },
+      instance
+    )
+    expect(instance.detectors?.list).not.toBe(built)
+  })
+})
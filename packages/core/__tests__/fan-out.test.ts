@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { AnomalyDetectionConfig, CoreOptions } from '../core'
+import { run } from './helpers'
+
+/** Anomalies of one update with fan-out detection */
+const update = (
+  prevState: object,
+  nextState: object,
+  fanOut: AnomalyDetectionConfig['fanOut'],
+  options: CoreOptions = {}
+) => run([prevState, nextState], { ...options, anomalyDetection: { fanOut } }).anomalies
+
+const inc = () => {}
+const state = { a: 1, b: 1, c: 1, d: 1, inc }
+
+describe('fan-out detection', () => {
+  it('fires when an update changes more than `maxPaths` paths', () => {
+    expect(update(state, { ...state, a: 2, b: 2 }, { maxPaths: 2 })).toEqual([])
+    expect(update(state, { ...state, a: 2, b: 2, c: 2 }, { maxPaths: 2 })).toEqual([
+      expect.objectContaining({
+        type: 'fan-out',
+        path: '*',
+        severity: 'warning',
+        changeCount: 3,
+        paths: ['a', 'b', 'c'],
+      }),
+    ])
+  })
+
+  it('counts only state paths towards `maxFraction`', () => {
+    // 2 of 4 state keys; counting the action would make it 2 of 5
+    expect(update(state, { ...state, a: 2, b: 2 }, { maxFraction: 0.45 })).toEqual([
+      expect.objectContaining({ type: 'fan-out', severity: 'warning' }),
+    ])
+    expect(update(state, { ...state, a: 2 }, { maxFraction: 0.45 })).toEqual([])
+  })
+
+  it('is critical when the whole store changes', () => {
+    const anomalies = update(state, { a: 2, b: 2, c: 2, d: 2, inc }, { maxFraction: 0.5 })
+    expect(anomalies).toEqual([expect.objectContaining({ severity: 'critical' })])
+  })
+
+  it('leaves excluded paths out of the fraction', () => {
+    const next = { ...state, a: 2, b: 2 }
+    expect(update(state, next, { maxFraction: 0.45 }, { exclude: ['c', 'd'] })).toEqual([
+      expect.objectContaining({ severity: 'critical' }),
+    ])
+  })
+})
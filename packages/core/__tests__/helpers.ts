@@ -0,0 +1,35 @@
+import type { AnomalyChunk, DiffChunk } from '../../shared-types'
+import { CoreOptions, coreImpl, createCoreInstance } from '../core'
+
+/**
+ * Options that record every diff chunk and anomaly, keeping their sounds silent.
+ * With `diffSounds`, diff chunks still produce sounds, which then reach `onSonic`.
+ */
+export function recording<S>(options: CoreOptions<S> = {}, { diffSounds = false } = {}) {
+  const diffs: DiffChunk[] = []
+  const anomalies: AnomalyChunk[] = []
+  const recordingOptions: CoreOptions<S> = {
+    ...options,
+    onDiff: chunk => {
+      diffs.push(chunk)
+      return diffSounds
+    },
+    onAnomaly: anomaly => {
+      anomalies.push(anomaly)
+      return false
+    },
+  }
+  return { diffs, anomalies, options: recordingOptions }
+}
+
+/**
+ * Run updates through one core instance, each state replacing the one before it.
+ * Records the diff chunks and anomalies silently, then drops open incidents so that
+ * no resolution timer outlives the test.
+ */
+export function run(states: object[], options: CoreOptions = {}, instance = createCoreInstance()) {
+  const { diffs, anomalies, options: silent } = recording(options)
+  states.slice(1).forEach((state, i) => coreImpl(state, states[i], silent, instance))
+  instance.incidents.clear()
+  return { diffs, anomalies, instance }
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AnomalyChunk } from '../../shared-types'
+import { IncidentOptions, IncidentTracker } from '../incidents'
+
+const anomaly = (id: string, severity: AnomalyChunk['severity'] = 'warning'): AnomalyChunk => ({
+  id,
+  type: 'rapid-change',
+  path: 'count',
+  changeCount: 1,
+  windowMs: 0,
+  timestamps: [performance.now()],
+  severity,
+})
+
+const quiet: IncidentOptions = {
+  key: 'rapid-change:count',
+  resolution: 'quiet',
+  cooldownMs: 1000,
+  resolveAfterMs: 500,
+}
+
+describe('IncidentTracker', () => {
+  let tracker: IncidentTracker
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    tracker = new IncidentTracker()
+  })
+
+  afterEach(() => {
+    tracker.clear()
+    vi.useRealTimers()
+  })
+
+  it('alerts once per cooldown and counts the merged occurrences', () => {
+    const onResolved = vi.fn()
+    const first = tracker.report(anomaly('a1'), quiet, onResolved)
+    expect(first).toMatchObject({ incidentId: 'a1', occurrences: 1, status: 'active' })
+
+    vi.advanceTimersByTime(200)
+    expect(tracker.report(anomaly('a2'), quiet, onResolved)).toBeNull()
+    vi.advanceTimersByTime(200)
+    expect(tracker.report(anomaly('a3'), quiet, onResolved)).toBeNull()
+
+    vi.advanceTimersByTime(400)
+    expect(tracker.report(anomaly('a4'), quiet, onResolved)).toBeNull()
+    vi.advanceTimersByTime(300)
+    expect(tracker.report(anomaly('a5'), quiet, onResolved)).toMatchObject({
+      id: 'a5',
+      incidentId: 'a1',
+      occurrences: 5,
+    })
+  })
+
+  it('alerts right away when an incident escalates', () => {
+    const options = { ...quiet, resolveAfterMs: 5000 }
+    tracker.report(anomaly('a1'), options, vi.fn())
+    expect(tracker.report(anomaly('a2', 'critical'), options, vi.fn())).toMatchObject({
+      severity: 'critical',
+      occurrences: 2,
+    })
+    // Stays escalated
+    vi.advanceTimersByTime(1000)
+    expect(tracker.report(anomaly('a3'), options, vi.fn())).toMatchObject({
+      severity: 'critical',
+      occurrences: 3,
+    })
+  })
+
+  it('resolves a quiet incident once no anomaly arrived for resolveAfterMs', () => {
+    const onResolved = vi.fn()
+    tracker.report(anomaly('a1'), quiet, onResolved)
+    vi.advanceTimersByTime(400)
+    tracker.report(anomaly('a2'), quiet, onResolved)
+    vi.advanceTimersByTime(400)
+    expect(onResolved).not.toHaveBeenCalled()
+    expect(tracker.openCount).toBe(1)
+
+    vi.advanceTimersByTime(100)
+    expect(onResolved).toHaveBeenCalledTimes(1)
+    expect(onResolved.mock.calls[0][0]).toMatchObject({
+      id: 'a1-resolved',
+      incidentId: 'a1',
+      occurrences: 2,
+      status: 'resolved',
+    })
+    expect(tracker.openCount).toBe(0)
+  })
+
+  it('resolves a recovery incident only when asked', () => {
+    const onResolved = vi.fn()
+    const recovery = { ...quiet, key: 'range:total:0:band', resolution: 'recovery' as const }
+    tracker.report(anomaly('r1', 'critical'), recovery, onResolved)
+    vi.advanceTimersByTime(10_000)
+    expect(onResolved).not.toHaveBeenCalled()
+    expect(tracker.openCount).toBe(1)
+
+    tracker.resolve(recovery.key)
+    expect(onResolved).toHaveBeenCalledTimes(1)
+    expect(tracker.openCount).toBe(0)
+    // Already resolved
+    tracker.resolve(recovery.key)
+    expect(onResolved).toHaveBeenCalledTimes(1)
+  })
+
+  it('never resolves one-time events and forgets them after the cooldown', () => {
+    const onResolved = vi.fn()
+    const once = { ...quiet, key: 'type-change:count', resolution: 'none' as const }
+    expect(tracker.report(anomaly('o1'), once, onResolved)).not.toHaveProperty('status')
+    expect(tracker.openCount).toBe(0)
+
+    tracker.resolve(once.key)
+    vi.advanceTimersByTime(1000)
+    expect(onResolved).not.toHaveBeenCalled()
+    expect(tracker.report(anomaly('o2'), once, onResolved)).toMatchObject({
+      incidentId: 'o2',
+      occurrences: 1,
+    })
+  })
+
+  it('keeps incidents with different keys apart', () => {
+    const up = { ...quiet, key: 'range:retries:0:threshold:5:up', resolution: 'none' as const }
+    const down = { ...up, key: 'range:retries:0:threshold:5:down' }
+    expect(tracker.report(anomaly('u1'), up, vi.fn())).not.toBeNull()
+    expect(tracker.report(anomaly('d1'), down, vi.fn())).not.toBeNull()
+    expect(tracker.report(anomaly('u2'), up, vi.fn())).toBeNull()
+  })
+
+  it('drops open incidents without resolving them on clear', () => {
+    const onResolved = vi.fn()
+    tracker.report(anomaly('a1'), quiet, onResolved)
+    tracker.clear()
+    vi.advanceTimersByTime(1000)
+    expect(onResolved).not.toHaveBeenCalled()
+    expect(tracker.openCount).toBe(0)
+  })
+})
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { AnomalyChunk, SonicChunk } from '../../shared-types'
+import { CoreOptions, Invariant, coreImpl, createCoreInstance } from '../core'
+
+interface State {
+  count: number
+  max: number
+}
+
+const withinMax: Invariant<State> = {
+  name: 'count <= max',
+  check: state => state.count <= state.max,
+}
+
+/** Run the states through one store, recording anomalies, resolutions and the sounds they play */
+function runInvariants(states: State[], invariants: Invariant<State>[]) {
+  const anomalies: AnomalyChunk[] = []
+  const resolved: AnomalyChunk[] = []
+  const sounds: SonicChunk[] = []
+  const options: CoreOptions<State> = {
+    invariants,
+    onDiff: () => false,
+    onAnomaly: anomaly => void anomalies.push(anomaly),
+    onResolved: chunk => void resolved.push(chunk),
+    onSonic: chunk => {
+      sounds.push(chunk)
+      return false
+    },
+  }
+  const instance = createCoreInstance('counter')
+  states
+    .slice(1)
+    .forEach((state, i) => coreImpl(state, states[i], options as CoreOptions, instance))
+  return { anomalies, resolved, sounds, instance }
+}
+
+describe('invariants', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('alerts once when violated, stays quiet while violated and resolves once restored', () => {
+    const { anomalies, resolved, instance } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 4, max: 2 },
+        { count: 1, max: 2 },
+        { count: 2, max: 2 },
+      ],
+      [withinMax]
+    )
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        type: 'invariant',
+        invariant: 'count <= max',
+        storeName: 'counter',
+        severity: 'warning',
+        status: 'active',
+      }),
+    ])
+    expect(resolved).toEqual([
+      expect.objectContaining({
+        id: `${anomalies[0].id}-resolved`,
+        invariant: 'count <= max',
+        status: 'resolved',
+      }),
+    ])
+    expect(instance.violatedInvariants.size).toBe(0)
+  })
+
+  it('alerts again when violated after being restored', () => {
+    const { anomalies, resolved } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 1, max: 2 },
+        { count: 5, max: 2 },
+      ],
+      [{ ...withinMax, level: 'critical' }]
+    )
+    expect(anomalies.map(anomaly => anomaly.severity)).toEqual(['critical', 'critical'])
+    expect(resolved).toHaveLength(1)
+  })
+
+  it('keeps the violation open while it is violated', () => {
+    const { instance } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+      ],
+      [withinMax]
+    )
+    expect([...instance.violatedInvariants.keys()]).toEqual(['count <= max'])
+  })
+
+  it('logs and skips a check that throws, still checking the others', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { anomalies } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+      ],
+      [
+        {
+          name: 'broken',
+          check: () => {
+            throw new Error('boom')
+          },
+        },
+        withinMax,
+      ]
+    )
+    expect(error).toHaveBeenCalledWith('Invariant "broken" check failed:', expect.any(Error))
+    expect(anomalies.map(anomaly => anomaly.invariant)).toEqual(['count <= max'])
+  })
+
+  it('does not resolve a violation while its check throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const flaky: Invariant<State> = {
+      name: 'flaky',
+      check: state => {
+        if (state.count === 1) throw new Error('boom')
+        return state.count <= state.max
+      },
+    }
+    const { resolved, instance } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 1, max: 2 },
+      ],
+      [flaky]
+    )
+    expect(resolved).toEqual([])
+    expect(instance.violatedInvariants.has('flaky')).toBe(true)
+  })
+
+  it('plays a dedicated restore sound, distinct from the incident "all clear"', () => {
+    const { anomalies, sounds } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 1, max: 2 },
+      ],
+      [withinMax]
+    )
+    const [alert, restored] = sounds
+    expect(sounds).toHaveLength(2)
+    expect(alert).toMatchObject({ isAnomaly: true, anomalyType: 'invariant' })
+    expect(restored).toMatchObject({
+      id: `${anomalies[0].id}-resolved`,
+      type: 'triangle',
+      motif: 'rising',
+      motifNotes: 3,
+      storeName: 'counter',
+      anomalyType: 'invariant',
+    })
+  })
+
+  it('applies restoredSound overrides to the restore sound', () => {
+    const { sounds } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 1, max: 2 },
+      ],
+      [{ ...withinMax, restoredSound: { frequency: 880, motif: 'zigzag' } }]
+    )
+    expect(sounds[1]).toMatchObject({ type: 'triangle', frequency: 880, motif: 'zigzag' })
+  })
+
+  it('reports the restore but plays nothing with restoredSound: false', () => {
+    const { resolved, sounds } = runInvariants(
+      [
+        { count: 0, max: 2 },
+        { count: 3, max: 2 },
+        { count: 1, max: 2 },
+      ],
+      [{ ...withinMax, restoredSound: false }]
+    )
+    expect(resolved).toHaveLength(1)
+    expect(sounds).toEqual([expect.objectContaining({ isAnomaly: true })])
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import type { DiffChunk } from '../../shared-types'
+import { coreImpl, createCoreInstance } from '../core'
+import { collectLeafChanges } from '../utils'
+
+const paths = (current: unknown, previous: unknown, arrayKey?: string, maxDepth = 8) =>
+  collectLeafChanges('root', current, previous, maxDepth, arrayKey).map(change => change.path)
+
+describe('collectLeafChanges', () => {
+  it('reports each changed leaf and skips shared subtrees', () => {
+    const shared = { a: 1 }
+    expect(
+      paths({ shared, user: { name: 'b', age: 2 } }, { shared, user: { name: 'a', age: 2 } })
+    ).toEqual(['root.user.name'])
+  })
+
+  it('reports added and removed keys', () => {
+    expect(paths({ a: 1, c: 3 }, { a: 1, b: 2 })).toEqual(['root.b', 'root.c'])
+  })
+
+  it('skips functions', () => {
+    expect(paths({ a: 1, fn: () => 1 }, { a: 1, fn: () => 2 })).toEqual([])
+  })
+
+  it('reports values whole when their kind changes or at the depth limit', () => {
+    expect(paths({ a: [1] }, { a: { 0: 1 } })).toEqual(['root.a'])
+    expect(paths({ a: { b: { c: 2 } } }, { a: { b: { c: 1 } } }, undefined, 1)).toEqual(['root.a'])
+  })
+
+  it('walks arrays that kept their length and order index by index', () => {
+    expect(paths([1, 5, 3], [1, 2, 3])).toEqual(['root.1'])
+    expect(paths([{ id: 1, t: 'b' }], [{ id: 1, t: 'a' }], 'id')).toEqual(['root.0.t'])
+  })
+
+  it('reports arrays whole when they changed length', () => {
+    expect(paths([1, 2, 3], [1, 2])).toEqual(['root'])
+  })
+
+  it('reports arrays whole when their items were reordered', () => {
+    const [a, b, c] = [{ id: 1 }, { id: 2 }, { id: 3 }]
+    expect(paths([c, a, b], [a, b, c])).toEqual(['root'])
+    expect(paths([3, 1, 2], [1, 2, 3])).toEqual(['root'])
+    // Copies of the items, identified by their key
+    expect(paths([{ ...c }, { ...a }, { ...b }], [a, b, c], 'id')).toEqual(['root'])
+  })
+
+  it('reports a change in a circular value once, not once per lap around the cycle', () => {
+    const circular = (v: number) => {
+      const x: Record<string, unknown> = { v }
+      x.self = x
+      return x
+    }
+    expect(paths(circular(2), circular(1))).toEqual(['root.v'])
+  })
+})
+
+describe('deep mode', () => {
+  it('reports reordered keyed arrays as moves', () => {
+    const todos = [
+      { id: 'a', t: 'x' },
+      { id: 'b', t: 'y' },
+      { id: 'c', t: 'z' },
+    ]
+    const chunks: DiffChunk[] = []
+    coreImpl(
+      { todos: [{ ...todos[2] }, { ...todos[0] }, { ...todos[1] }] },
+      { todos },
+      {
+        deep: true,
+        arrayKey: 'id',
+        onDiff: chunk => {
+          chunks.push(chunk)
+          return false
+        },
+      },
+      createCoreInstance()
+    )
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]).toMatchObject({
+      path: 'todos',
+      arrayOperations: [{ type: 'move', from: 2, to: 0 }],
+    })
+  })
+})
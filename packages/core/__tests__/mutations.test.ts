@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { CoreOptions, coreImpl, createCoreInstance, snapshotState } from '../core'
+import { recording } from './helpers'
+
+/** Options detecting mutations that record the anomalies, keeping everything silent */
+const detecting = (options: CoreOptions = {}) =>
+  recording({ ...options, anomalyDetection: { mutation: {} } })
+
+const createState = () => ({
+  count: 0,
+  items: [1, 2],
+  user: { profile: { name: 'a' }, tags: ['x'] },
+})
+
+describe('mutation detection', () => {
+  it('reports objects changed without a new reference', () => {
+    const { anomalies, options } = detecting()
+    const instance = createCoreInstance()
+    const state = createState()
+    coreImpl({ ...state, count: 1 }, state, options, instance)
+
+    state.items.push(3)
+    coreImpl({ ...state, count: 2 }, { ...state, count: 1 }, options, instance)
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'mutation', path: 'items', severity: 'critical' }),
+    ])
+  })
+
+  it('reports only the deepest mutated object', () => {
+    const { anomalies, options } = detecting()
+    const instance = createCoreInstance()
+    const state = createState()
+    snapshotState(state, options, instance)
+
+    state.user.profile.name = 'b'
+    coreImpl({ ...state, count: 1 }, state, options, instance)
+    expect(anomalies.map(anomaly => anomaly.path)).toEqual(['user.profile'])
+  })
+
+  it('catches a mutation of the initial state on the first update', () => {
+    const { anomalies, options } = detecting()
+    const instance = createCoreInstance()
+    const state = createState()
+    snapshotState(state, options, instance)
+
+    state.items.push(3)
+    coreImpl({ ...state, count: 1 }, state, options, instance)
+    expect(anomalies.map(anomaly => anomaly.path)).toEqual(['items'])
+  })
+
+  it('ignores new references and excluded paths', () => {
+    const { anomalies, options } = detecting({ exclude: ['user.tags'] })
+    const instance = createCoreInstance()
+    const state = createState()
+    snapshotState(state, options, instance)
+
+    state.user.tags.push('y')
+    coreImpl({ ...state, items: [...state.items, 3] }, state, options, instance)
+    expect(anomalies).toEqual([])
+  })
+})
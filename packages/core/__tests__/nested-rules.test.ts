@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { run } from './helpers'
+
+describe('rules on nested paths', () => {
+  it.each([false, true])('fire for values below a changed key (deep: %s)', deep => {
+    const { anomalies } = run(
+      [{ cart: { total: 5, items: 1 } }, { cart: { total: -3, items: 1 } }],
+      {
+        deep,
+        anomalyDetection: { range: [{ pathPattern: 'cart.total', critical: { min: 0 } }] },
+      }
+    )
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'range', path: 'cart.total', severity: 'critical' }),
+    ])
+  })
+
+  it('check each value a glob selects below the change', () => {
+    const { anomalies } = run(
+      [
+        { sensors: [{ temp: 20 }, { temp: 20 }, { temp: 20 }] },
+        { sensors: [{ temp: 50 }, { temp: 20 }, { temp: -5 }] },
+      ],
+      {
+        anomalyDetection: {
+          range: [{ pathPattern: 'sensors.*.temp', critical: { min: 0, max: 40 } }],
+        },
+      }
+    )
+    expect(anomalies.map(anomaly => anomaly.path)).toEqual(['sensors.0.temp', 'sensors.2.temp'])
+  })
+
+  it('ignore values below the change that kept their value', () => {
+    const { anomalies } = run(
+      [{ cart: { total: -3, items: 1 } }, { cart: { total: -3, items: 2 } }],
+      {
+        anomalyDetection: { range: [{ pathPattern: 'cart.total', critical: { min: 0 } }] },
+      }
+    )
+    expect(anomalies).toEqual([])
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { run } from './helpers'
+import { expandPathPattern, isPathGlob, matchPathPattern, matchPathPatterns } from '../path-matcher'
+
+describe('matchPathPattern', () => {
+  it('matches literal paths and everything nested below them', () => {
+    expect(matchPathPattern('session.user', 'session.user')).toBe(true)
+    expect(matchPathPattern('session.user.id', 'session.user')).toBe(true)
+    expect(matchPathPattern('session', 'session.user')).toBe(false)
+    expect(matchPathPattern('session.username', 'session.user')).toBe(false)
+  })
+
+  it('matches exactly one segment with *', () => {
+    expect(matchPathPattern('todos.3.done', 'todos.*.done')).toBe(true)
+    expect(matchPathPattern('todos.done', 'todos.*.done')).toBe(false)
+    expect(matchPathPattern('todos.1.2.done', 'todos.*.done')).toBe(false)
+  })
+
+  it('matches any number of segments with **', () => {
+    expect(matchPathPattern('error', '**.error')).toBe(true)
+    expect(matchPathPattern('form.fields.email.error', '**.error')).toBe(true)
+    expect(matchPathPattern('form.fields.email.value', '**.error')).toBe(false)
+    expect(matchPathPattern('a.b.c', 'a.**')).toBe(true)
+  })
+
+  it('inverts negated patterns', () => {
+    expect(matchPathPattern('user.password', '!user.password')).toBe(false)
+    expect(matchPathPattern('user.name', '!user.password')).toBe(true)
+  })
+
+  it('tests RegExp patterns against the full path', () => {
+    expect(matchPathPattern('cart.items.2', /^cart\.items\.\d+$/)).toBe(true)
+    expect(matchPathPattern('cart.total', /^cart\.items/)).toBe(false)
+  })
+})
+
+describe('matchPathPatterns', () => {
+  it('lets the last matching pattern win', () => {
+    const patterns = ['user', '!user.password']
+    expect(matchPathPatterns('user.name', patterns)).toBe(true)
+    expect(matchPathPatterns('user.password', patterns)).toBe(false)
+    expect(matchPathPatterns('cart', patterns)).toBe(false)
+    expect(matchPathPatterns('user.password', ['!user.password', 'user'])).toBe(true)
+  })
+
+  it('selects everything when all patterns are negations', () => {
+    const patterns = ['!internal', '!**.secret']
+    expect(matchPathPatterns('cart', patterns)).toBe(true)
+    expect(matchPathPatterns('internal.cache', patterns)).toBe(false)
+    expect(matchPathPatterns('user.auth.secret', patterns)).toBe(false)
+  })
+})
+
+describe('isPathGlob', () => {
+  it('tells literal paths from patterns', () => {
+    expect(isPathGlob('user.name')).toBe(false)
+    expect(isPathGlob('todos.*')).toBe(true)
+    expect(isPathGlob('**.error')).toBe(true)
+    expect(isPathGlob('!user')).toBe(true)
+  })
+})
+
+describe('expandPathPattern', () => {
+  const state = {
+    todos: [
+      { title: 'a', done: false },
+      { title: 'b', done: true },
+    ],
+    form: { email: { error: 'required' }, name: { value: 'x' } },
+  }
+
+  it('returns literal patterns unchanged, whether or not they exist', () => {
+    expect(expandPathPattern(state, 'todos')).toEqual(['todos'])
+    expect(expandPathPattern(state, 'missing.path')).toEqual(['missing.path'])
+  })
+
+  it('resolves * to the keys and indexes present in the object', () => {
+    expect(expandPathPattern(state, 'todos.*.done')).toEqual(['todos.0.done', 'todos.1.done'])
+    expect(expandPathPattern(state, 'form.*')).toEqual(['form.email', 'form.name'])
+  })
+
+  it('resolves ** to paths at any depth', () => {
+    expect(expandPathPattern(state, '**.error')).toEqual(['form.email.error'])
+  })
+
+  it('drops trailing ** segments', () => {
+    expect(expandPathPattern(state, 'form.*.**')).toEqual(['form.email', 'form.name'])
+    expect(expandPathPattern(state, '**')).toEqual(['todos', 'form'])
+  })
+
+  it('does not follow circular references', () => {
+    const node: Record<string, unknown> = { error: 'x' }
+    node.self = node
+    expect(expandPathPattern({ node }, '**.error')).toEqual(['node.error'])
+  })
+
+  it('stops at the depth and node limits', () => {
+    const nested = { a: { b: { c: { error: 'x' } } } }
+    expect(expandPathPattern(nested, '**.error', { maxDepth: 3 })).toEqual([])
+    expect(expandPathPattern(nested, '**.error', { maxDepth: 4 })).toEqual(['a.b.c.error'])
+
+    const wide = Object.fromEntries(Array.from({ length: 100 }, (_, i) => [`k${i}`, { error: i }]))
+    const limited = expandPathPattern(wide, '**.error', { maxNodes: 11 })
+    expect(limited.length).toBeGreaterThan(0)
+    expect(limited.length).toBeLessThanOrEqual(10)
+  })
+})
+
+describe('include patterns', () => {
+  it('select changes in a circular state', () => {
+    const form: Record<string, unknown> = { error: null }
+    form.self = form
+    const { diffs } = run([{ form }, { form: { ...form, error: 'required' } }], {
+      include: ['**.error'],
+    })
+    expect(diffs.map(chunk => chunk.path)).toEqual(['form.error'])
+  })
+})
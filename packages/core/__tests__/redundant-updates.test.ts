@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { run } from './helpers'
+
+const user = { name: 'a', tags: ['x'] }
+
+describe('redundant update detection', () => {
+  const redundantUpdate = {}
+
+  it('reports new references with identical content', () => {
+    const { anomalies } = run(
+      [
+        { user, count: 0 },
+        { user: { ...user }, count: 1 },
+      ],
+      {
+        anomalyDetection: { redundantUpdate },
+      }
+    )
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'redundant-update', path: 'user', changeCount: 1 }),
+    ])
+  })
+
+  it('reports an update that changes nothing once, for the whole store', () => {
+    const state = { user, count: 0 }
+    const { anomalies, instance } = run([state, { ...state }, { ...state }], {
+      anomalyDetection: { redundantUpdate: { cooldownMs: 0 } },
+    })
+    expect(anomalies.map(anomaly => [anomaly.path, anomaly.changeCount])).toEqual([
+      ['*', 1],
+      ['*', 2],
+    ])
+    expect(instance.redundantUpdates).toEqual({
+      total: 2,
+      byPath: { '*': 2 },
+      byAction: { anonymous: 2 },
+    })
+  })
+
+  it('ignores values that really changed', () => {
+    const { anomalies } = run([{ user }, { user: { ...user, name: 'b' } }], {
+      anomalyDetection: { redundantUpdate },
+    })
+    expect(anomalies).toEqual([])
+  })
+
+  it('ignores excluded paths', () => {
+    const { anomalies, instance } = run(
+      [
+        { user, count: 0 },
+        { user: { ...user }, count: 1 },
+      ],
+      {
+        exclude: ['user'],
+        anomalyDetection: { redundantUpdate },
+      }
+    )
+    expect(anomalies).toEqual([])
+    expect(instance.redundantUpdates.total).toBe(0)
+  })
+
+  it('only counts when notify is none', () => {
+    const { anomalies, instance } = run(
+      [
+        { user, count: 0 },
+        { user: { ...user }, count: 1 },
+      ],
+      {
+        anomalyDetection: { redundantUpdate: { notify: 'none' } },
+      }
+    )
+    expect(anomalies).toEqual([])
+    expect(instance.redundantUpdates).toEqual({
+      total: 1,
+      byPath: { user: 1 },
+      byAction: { anonymous: 1 },
+    })
+  })
+})
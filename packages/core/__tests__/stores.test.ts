@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { CoreOptions, coreImpl, createCoreInstance } from '../core'
+import { recording } from './helpers'
+
+/**
+ * Two stores sharing the `count` key, each with its own core instance, updated in turn.
+ * `updates` lists which store sets `count` to which value.
+ */
+function runStores(updates: ['a' | 'b', number][], options: CoreOptions) {
+  const { anomalies, options: silent } = recording(options)
+  const stores = {
+    a: { instance: createCoreInstance('a'), state: { count: 0 } },
+    b: { instance: createCoreInstance('b'), state: { count: 0 } },
+  }
+  for (const [name, count] of updates) {
+    const store = stores[name]
+    const state = { count }
+    coreImpl(state, store.state, silent, store.instance)
+    store.state = state
+  }
+  stores.a.instance.incidents.clear()
+  stores.b.instance.incidents.clear()
+  return anomalies
+}
+
+describe('multiple stores', () => {
+  it('counts rapid changes to a shared key per store', () => {
+    const rapidChange = { count: 3, windowMs: 60_000 }
+    const interleaved = runStores(
+      [
+        ['a', 1],
+        ['b', 1],
+        ['a', 2],
+        ['b', 2],
+      ],
+      { anomalyDetection: { rapidChange } }
+    )
+    expect(interleaved).toEqual([])
+
+    const anomalies = runStores(
+      [
+        ['a', 1],
+        ['b', 1],
+        ['a', 2],
+        ['b', 2],
+        ['a', 3],
+      ],
+      { anomalyDetection: { rapidChange } }
+    )
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        type: 'rapid-change',
+        path: 'count',
+        storeName: 'a',
+        changeCount: 3,
+      }),
+    ])
+  })
+
+  it('tracks oscillation of a shared key per store', () => {
+    const oscillation = { reversals: 2, windowMs: 60_000 }
+    // Together the stores flip 1 → 0 → 1 → 0; each alone only goes 1 → 0
+    const sequential = runStores(
+      [
+        ['a', 1],
+        ['a', 0],
+        ['b', 1],
+        ['b', 0],
+      ],
+      { anomalyDetection: { oscillation } }
+    )
+    expect(sequential).toEqual([])
+
+    const anomalies = runStores(
+      [
+        ['a', 1],
+        ['b', 1],
+        ['a', 0],
+        ['b', 0],
+        ['a', 1],
+        ['a', 0],
+      ],
+      { anomalyDetection: { oscillation } }
+    )
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: 'oscillation', path: 'count', storeName: 'a' }),
+    ])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { CoreOptions } from '../core'
+import { run } from './helpers'
+
+/** Diff chunks of one update */
+const update = (prevState: object, nextState: object, options: CoreOptions) =>
+  run([prevState, nextState], options).diffs
+
+const loggedOut = { path: 'session.user', alertLevel: 'warning', to: null }
+const loggedIn = { session: { token: 't', user: { name: 'a' } } }
+
+describe('watch path transitions', () => {
+  describe.each([
+    ['deep mode', true],
+    ['top-level mode', false],
+  ])('in %s', (_, deep) => {
+    it('compares the value at the watched path', () => {
+      const chunks = update(
+        loggedIn,
+        { session: { token: 't', user: null } },
+        { deep, watchPaths: [loggedOut] }
+      )
+      const watched = chunks.filter(chunk => chunk.watchConfig)
+      expect(watched).toHaveLength(1)
+      expect(watched[0]).toMatchObject({
+        path: deep ? 'session.user' : 'session',
+        alertLevel: 'warning',
+        transition: { from: { name: 'a' }, to: null },
+      })
+    })
+
+    it('ignores nested values that match the condition', () => {
+      const chunks = update(
+        loggedIn,
+        { session: { token: 't', user: { name: null } } },
+        { deep, watchPaths: [loggedOut] }
+      )
+      expect(chunks.length).toBeGreaterThan(0)
+      expect(chunks.some(chunk => chunk.watchConfig)).toBe(false)
+    })
+  })
+
+  it('ignores changes of an ancestor that leave the watched value alone', () => {
+    const chunks = update(
+      loggedIn,
+      { session: { ...loggedIn.session, token: 'u' } },
+      {
+        watchPaths: [{ path: 'session.user', alertLevel: 'warning' }],
+      }
+    )
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].watchConfig).toBeUndefined()
+  })
+
+  it('resolves glob patterns to the matched item', () => {
+    const todos = [
+      { title: 'a', done: false },
+      { title: 'b', done: false },
+    ]
+    const watch = { path: 'todos.*', alertLevel: 'warning', when: (todo: unknown) => !!todo }
+    const chunks = update(
+      { todos },
+      { todos: [todos[0], { ...todos[1], done: true }] },
+      { watchPaths: [{ ...watch, from: null }] }
+    )
+    expect(chunks[0].watchConfig).toBeUndefined()
+
+    const [chunk] = update(
+      { todos },
+      { todos: [todos[0], { ...todos[1], done: true }] },
+      { deep: true, watchPaths: [watch] }
+    )
+    expect(chunk).toMatchObject({
+      path: 'todos.1.done',
+      transition: { from: todos[1], to: { title: 'b', done: true } },
+    })
+  })
+})
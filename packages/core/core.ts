@@ -2,30 +2,86 @@
 import {
   DIFF_CHUNK_EVENT_NAME,
   ANOMALY_CHUNK_EVENT_NAME,
+  ANOMALY_RESOLVED_EVENT_NAME,
   ZusoundDiffEvent,
   ZusoundAnomalyEvent,
+  ZusoundAnomalyResolvedEvent,
   DiffChunk,
   AnomalyChunk,
   WatchPathConfig,
+  TransitionMatcher,
+  AlertLevel,
   SonicChunk,
+  CustomVisualConfig,
 } from '../shared-types'
-import diff, { isDiffable } from '../diff'
-import { sonifyChanges } from '../sonification/sonification'
+import diff, { isDiffable, DiffBudget, DEFAULT_DIFF_BUDGET, structuralHash } from '../diff'
+import {
+  sonifyChanges,
+  sonifyAnomaly,
+  sonifyRedundantUpdate,
+  sonifyResolved,
+  sonifyInvariantRestored,
+} from '../sonification/sonification'
+import { SonicCoalescer, CoalesceConfig } from '../sonification/coalescer'
+import {
+  collectLeafChanges,
+  collectSnapshot,
+  getValueByPath,
+  PathChange,
+  SnapshotEntry,
+} from './utils'
+import {
+  getDetectors,
+  getDetectorIncidentKey,
+  toAnomalyChunk,
+  AnomalyDetector,
+  DetectorChange,
+  DetectorContext,
+  DetectorFinding,
+} from './detectors'
+import {
+  IncidentTracker,
+  IncidentResolution,
+  DEFAULT_COOLDOWN_MS,
+  DEFAULT_RESOLVE_AFTER_MS,
+} from './incidents'
+import {
+  expandPathPattern,
+  getMatchedPath,
+  getPatternBelow,
+  matchPathPattern,
+  matchPathPatterns,
+  StatePathPattern,
+} from './path-matcher'
 
 /** Custom visual configuration for anomalies */
-export interface AnomalyCustomVisualConfig {
-  /** Custom color for the visual effect */
-  color?: string
-  /** Intensity level for visual effects */
-  intensity?: 'low' | 'medium' | 'high'
-  /** Custom glow, pulse, or flash effects */
-  effect?: 'glow' | 'pulse' | 'flash' | string // Allow other string types for extensibility
-}
+export type AnomalyCustomVisualConfig = CustomVisualConfig
 
 /** Anomaly detection configuration */
 export interface AnomalyDetectionConfig {
+  /**
+   * Minimum time in ms between alerts for one incident, i.e. one anomaly type on one path.
+   * Repeated anomalies in between are merged into the incident and counted in
+   * `AnomalyChunk.occurrences`; escalating to a higher-priority level alerts immediately.
+   * Defaults to 1000.
+   */
+  cooldownMs?: number
+  /**
+   * Time in ms without a new anomaly after which an incident of a rate-based rule
+   * (rapid change, oscillation, growth) is resolved, dispatching a resolved chunk and an
+   * "all clear" sound. Range incidents resolve when the value is back within range instead,
+   * and other anomalies are one-time events. Defaults to the anomaly's `windowMs`, at least 1000.
+   */
+  resolveAfterMs?: number
+  /** Sound overrides for the "all clear" sound; `false` resolves incidents silently */
+  resolvedSound?: Partial<SonicChunk> | false
+  /**
+   * Custom detectors, run for every changed path after the built-in ones.
+   * See {@link AnomalyDetector}.
+   */
+  detectors?: AnomalyDetector[]
   rapidChange?: {
-    /** Optional path pattern filter (string or RegExp) */
+    /** Optional path pattern filter (glob string or RegExp) */
     pathPattern?: string | RegExp
     /** Number of changes to trigger anomaly */
     count: number
@@ -35,15 +91,202 @@ export interface AnomalyDetectionConfig {
     alertSound?: Partial<SonicChunk>
     /** Custom visual properties */
     customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+  /**
+   * Flip-flop detection: fires when a value keeps returning to a previous value
+   * (A→B→A), e.g. `loading: true/false/true/false`, as opposed to progressing.
+   */
+  oscillation?: {
+    /** Optional path pattern filter (glob string or RegExp) */
+    pathPattern?: string | RegExp
+    /** Number of A→B→A reversals to trigger anomaly */
+    reversals: number
+    /** Time window in ms */
+    windowMs: number
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+  /** Numeric range and threshold rules, see {@link RangeAnomalyRule} */
+  range?: RangeAnomalyRule[]
+  /**
+   * Shape detection: fires when a path switches value type, e.g. `price` from
+   * number to string or `user` from object to null. Paths that did not exist
+   * before (previous value `undefined`) are not reported.
+   */
+  typeChange?: {
+    /** Optional path pattern filter (glob string or RegExp) */
+    pathPattern?: string | RegExp
+    /**
+     * Path patterns whose values may legitimately become or stop being `null`/`undefined`,
+     * e.g. `['user', 'session.*']`. `true` allows nullable transitions on every path.
+     */
+    allowNullable?: boolean | Array<string | RegExp>
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+  /**
+   * Growth detection: fires when an array, Map/Set or object keeps growing across
+   * updates, e.g. a cache or log that is never trimmed. A shrinking update starts over,
+   * and so does a path that did not change for a minute.
+   * Without `maxSize` or `maxRate`, growing for `minSamples` updates is enough to fire.
+   */
+  growth?: {
+    /** Optional path pattern filter (glob string or RegExp) */
+    pathPattern?: string | RegExp
+    /**
+     * What to measure: item/key `count`, or approximate serialized size in `bytes`.
+     * Defaults to 'count'. Sizes in bytes only cover the first `diffBudget.maxNodes`
+     * nodes, so a value past that budget stops growing and is no longer reported;
+     * use 'count' or raise the budget for large values.
+     */
+    measure?: 'count' | 'bytes'
+    /**
+     * Number of consecutive growing updates required, and the number of recent
+     * updates the rate is measured over. Defaults to 5.
+     */
+    minSamples?: number
+    /** Fire once the size exceeds this many items, keys or bytes */
+    maxSize?: number
+    /**
+     * Fire when the size grew faster than this many items, keys or bytes per second
+     * over the last `minSamples` updates
+     */
+    maxRate?: number
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
   }
+  /**
+   * Fan-out detection: fires when a single update changes too many paths at once,
+   * e.g. an accidental whole-store replacement or an over-broad spread.
+   */
+  fanOut?: {
+    /** Fire when one update changes more than this many paths */
+    maxPaths?: number
+    /**
+     * Fire when one update touches more than this fraction (0-1) of the store's
+     * top-level keys, or of the `include` paths when set. Actions and excluded paths
+     * are not counted.
+     */
+    maxFraction?: number
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+  /**
+   * Redundant update detection: a path received a new reference with identical content,
+   * e.g. `set({ user: { ...user } })`. Subscribers still re-render, but nothing changed.
+   * An update that changes no path at all, e.g. `set({ count: 1 })` when count is already 1,
+   * is reported once for the whole store with path '*' (unless `pathPattern` is set).
+   * Every occurrence is counted per path and action in `CoreInstance.redundantUpdates`.
+   */
+  redundantUpdate?: {
+    /** Optional path pattern filter (glob string or RegExp) */
+    pathPattern?: string | RegExp
+    /**
+     * How to report each redundant update: a `'redundant-update'` `anomaly`, a soft
+     * `tick`, or `none` (count only). Defaults to 'anomaly'.
+     */
+    notify?: 'anomaly' | 'tick' | 'none'
+    /** Sound overrides for the tick */
+    tickSound?: Partial<SonicChunk>
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+  /**
+   * In-place mutation detection: fires when an object in the previous state changed
+   * content without getting a new reference, e.g. `get().items.push(x)` followed by `set`.
+   * Keeps a structural snapshot of the state (down to `maxDepth`) and hashes every object
+   * on each update, so enable it in development only.
+   */
+  mutation?: {
+    /** Optional path pattern filter (glob string or RegExp) */
+    pathPattern?: string | RegExp
+    /** Custom alert sound properties */
+    alertSound?: Partial<SonicChunk>
+    /** Custom visual properties */
+    customVisual?: AnomalyCustomVisualConfig
+    /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+    cooldownMs?: number
+  }
+}
+
+/** Counts of updates that replaced a value with an identical copy */
+export interface RedundantUpdateStats {
+  total: number
+  /** Count per state path */
+  byPath: Record<string, number>
+  /** Count per action name; unnamed `set` calls are counted as 'anonymous' */
+  byAction: Record<string, number>
+}
+
+/** Inclusive numeric bounds; either side may be omitted */
+export interface NumericBounds {
+  min?: number
+  max?: number
+}
+
+/**
+ * Numeric rule for values matching a path pattern. Fires when a value leaves its
+ * warning or critical band, or crosses a threshold in either direction. Nested glob
+ * patterns like 'cart.total' also work without `deep`: the values they select below a
+ * changed top-level key are checked one by one.
+ *
+ * @example
+ * ```typescript
+ * range: [
+ *   { pathPattern: 'cart.total', critical: { min: 0 } },
+ *   { pathPattern: 'retries', thresholds: [3, { value: 5, severity: 'critical' }] },
+ *   { pathPattern: 'sensors.*.temp', warning: { min: 10, max: 30 }, critical: { min: 0, max: 40 } },
+ * ]
+ * ```
+ */
+export interface RangeAnomalyRule {
+  /** Path pattern filter (glob string, or RegExp tested against the changed path only) */
+  pathPattern: string | RegExp
+  /** Allowed range; leaving it raises a warning */
+  warning?: NumericBounds
+  /** Outer range; leaving it raises a critical anomaly */
+  critical?: NumericBounds
+  /** Values that fire when crossed in either direction. Severity defaults to 'warning'. */
+  thresholds?: Array<number | { value: number; severity?: AlertLevel }>
+  /** Custom alert sound properties */
+  alertSound?: Partial<SonicChunk>
+  /** Custom visual properties */
+  customVisual?: AnomalyCustomVisualConfig
+  /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+  cooldownMs?: number
 }
 
 /**
  * Configuration options for Zusound Core functionality.
+ * `S` is the store's state: invariants receive the typed state, and `include`, `exclude`
+ * and `watchPaths` only accept paths that exist in the state when `P` is inferred from
+ * their literals, as the `zusound` middleware and `setOptions` do.
  *
  * @example
  * ```typescript
- * const options: CoreOptions = {
+ * const options: CoreOptions<AppState> = {
  *   enabled: true,
  *   include: ["user", "cart"],
  *   exclude: ["internal", "temp"],
@@ -77,28 +320,39 @@ export interface AnomalyDetectionConfig {
  * }
  * ```
  */
-export interface CoreOptions {
+export interface CoreOptions<S = unknown, P extends string = string> {
   enabled?: boolean
+  /**
+   * Name identifying the store. It is attached as `storeName` to every DiffChunk,
+   * AnomalyChunk and SonicChunk the store produces, so events from several stores
+   * can be told apart.
+   */
+  name?: string
   /**
    * Array of state paths to include for sonification.
    * If provided, only these paths will be considered.
    * Paths can be dot-separated for nested properties, e.g., "user.profile.name".
+   * Glob patterns are supported: `*` for one segment ("todos.*.done"), `**` for any depth
+   * and a leading `!` to negate ("!user.password"). Globs are resolved against the state
+   * up to 8 levels deep, without following circular references.
    * If undefined or empty, all top-level keys are considered by default (unless excluded).
    */
-  include?: string[]
+  include?: StatePathPattern<S, P>[]
   /**
    * Array of state paths to exclude from sonification.
    * These paths will be ignored. Takes precedence over `include` if a path is in both.
-   * Paths can be dot-separated.
+   * Paths can be dot-separated and support the same glob patterns as `include`.
    */
-  exclude?: string[]
+  exclude?: StatePathPattern<S, P>[]
   /**
    * Array of critical state paths to monitor with heightened sensitivity.
    * Changes to these paths will trigger distinct audio and visual feedback.
    *
    * Features:
    * - **Exact and Prefix Matching**: Supports both exact path matches and prefix matching for nested objects
-   * - **Alert Levels**: 'critical' for high-priority changes, 'warning' for moderate alerts
+   * - **Glob Patterns**: `*` matches one segment, `**` any depth, a leading `!` negates
+   * - **Alert Levels**: 'critical' for high-priority changes, 'warning' for moderate alerts,
+   *   or any level registered with `registerAlertLevel`
    * - **Custom Sounds**: Override default audio with custom frequency, magnitude, duration, etc.
    * - **Enhanced Visuals**: Distinct colors, intensities, and effects for critical changes
    *
@@ -122,197 +376,1010 @@ export interface CoreOptions {
    *     path: "api.errors",
    *     alertLevel: "critical",
    *     customVisual: { intensity: "high", effect: "flash" }
+   *   },
+   *   // Transitions: only alert when an order goes back from paid, or the user is logged out
+   *   {
+   *     path: "status",
+   *     alertLevel: "critical",
+   *     from: "paid",
+   *     to: ["pending", "cart"]
+   *   },
+   *   {
+   *     path: "session.user",
+   *     alertLevel: "warning",
+   *     to: null
    *   }
    * ]
    * ```
    */
-  watchPaths?: WatchPathConfig[]
+  watchPaths?: WatchPathConfig<StatePathPattern<S, P>>[]
 
   /** Anomaly detection configuration for problematic state patterns */
   anomalyDetection?: AnomalyDetectionConfig
+
+  /**
+   * Walk nested objects and arrays and emit one DiffChunk per changed leaf path
+   * (e.g. "user.profile.name", "todos.3.done") instead of one per top-level key.
+   * Defaults to `false`.
+   */
+  deep?: boolean
+
+  /**
+   * Maximum number of levels below each considered path that deep mode descends.
+   * Changes below this depth are reported as a single change of the subtree.
+   * Only used when `deep` is enabled. Defaults to 8.
+   */
+  maxDepth?: number
+
+  /**
+   * Field used to identify object items when diffing arrays (e.g. "id"), so that
+   * reorders are reported as moves and content changes as updates of the same item.
+   * Without it, array items are matched by content.
+   */
+  arrayKey?: string
+
+  /**
+   * Limits on the work spent diffing a single path. Values larger than the budget are
+   * compared by structural hashing and sampling, and their DiffChunk is marked `estimated`.
+   * Raise the limits for exact results on large values, lower them for busy stores.
+   */
+  diffBudget?: Partial<DiffBudget>
+
+  /** Action attribution for `set(partial, replace, actionName)` calls */
+  actions?: ActionConfig
+
+  /**
+   * Conditions over the whole state that should always hold, evaluated after every update.
+   * Useful for relations between paths that per-path watching cannot express.
+   *
+   * @example
+   * ```typescript
+   * invariants: [
+   *   {
+   *     name: 'cart total matches items',
+   *     check: (state: CartState) =>
+   *       state.total === state.items.reduce((sum, item) => sum + item.price, 0),
+   *     level: 'critical',
+   *   },
+   * ]
+   * ```
+   */
+  invariants?: Invariant<S>[]
+
+  /**
+   * Called synchronously for every DiffChunk, after the window event is dispatched.
+   * Return `false` to suppress the change's sound.
+   */
+  onDiff?: ChunkCallback<DiffChunk>
+
+  /**
+   * Called synchronously for every AnomalyChunk, after the window event is dispatched.
+   * Return `false` to suppress the alert sound, e.g. after routing it to error reporting.
+   */
+  onAnomaly?: ChunkCallback<AnomalyChunk>
+
+  /**
+   * Called synchronously when an anomaly incident is resolved, with the resolved chunk.
+   * Return `false` to suppress the "all clear" sound.
+   */
+  onResolved?: ChunkCallback<AnomalyChunk>
+
+  /**
+   * Called with every SonicChunk once it is created, before sounds are grouped by
+   * `coalesce` and limited by the sound budget, so a chunk passed here may still be merged
+   * into a chord or dropped. Return `false` to suppress it.
+   */
+  onSonic?: ChunkCallback<SonicChunk>
+
+  /**
+   * Group the sounds of changes made in the same update (or window) into one chord or
+   * short arpeggio instead of overlapping blips. Enabled by default; pass
+   * `{ enabled: false }` to play every change independently.
+   */
+  coalesce?: CoalesceConfig
+}
+
+/** A condition over the whole state that should always hold */
+export interface Invariant<S = unknown> {
+  /** Unique name, reported as `AnomalyChunk.invariant` */
+  name: string
+  /** Return `false` when the invariant is violated */
+  check(state: S): boolean
+  /** Severity of a violation. Defaults to 'warning'. */
+  level?: AlertLevel
+  /** Sound overrides for the violation alert */
+  violatedSound?: Partial<SonicChunk>
+  /** Sound overrides for the sound played once the invariant holds again; `false` for none */
+  restoredSound?: Partial<SonicChunk> | false
+}
+
+/** Store context passed to `onDiff`, `onAnomaly` and `onSonic` */
+export interface ChunkCallbackContext {
+  /** Name of the store, when the store was given a `name` */
+  storeName?: string
+  /** Action name of the `set` call that produced the chunk */
+  actionName?: string
+  /** Call site of the `set` call, when `actions.captureCallSite` is enabled */
+  callSite?: string
 }
 
+/** Callback receiving zusound output for one store. Returning `false` suppresses the sound. */
+export type ChunkCallback<T> = (chunk: T, context: ChunkCallbackContext) => boolean | void
+
+/**
+ * Configuration for attributing changes to the action that caused them.
+ *
+ * @example
+ * ```typescript
+ * actions: {
+ *   captureCallSite: true,
+ *   sounds: {
+ *     addTodo: { motif: 'rising', type: 'sine' },
+ *     resetAll: { type: 'sawtooth', frequency: 220 },
+ *   },
+ * }
+ * ```
+ */
+export interface ActionConfig {
+  /**
+   * Record the code location of each `set` call on `DiffChunk.callSite`.
+   * Uses a stack trace per call, so keep it to development builds. Defaults to `false`.
+   */
+  captureCallSite?: boolean
+  /** Sound overrides (timbre, pitch or motif) applied to changes made by a named action */
+  sounds?: Record<string, Partial<SonicChunk>>
+}
+
+/** Default depth limit for deep diffing */
+const DEFAULT_MAX_DEPTH = 8
+
+/**
+ * Per-store core state, kept across updates.
+ * Each store gets its own instance so that trackers keyed by path never mix stores.
+ */
+export interface CoreInstance {
+  /** Name of the store, copied onto emitted chunks */
+  storeName?: string
+  /** State kept by each anomaly detector, by detector name, see `DetectorContext.memory` */
+  detectorMemory: Map<string, Map<string, unknown>>
+  /** Redundant updates seen so far, when redundant update detection is enabled */
+  redundantUpdates: RedundantUpdateStats
+  /** Object references and hashes from the last update, for mutation detection */
+  mutationSnapshot?: Map<string, SnapshotEntry>
+  /** Invariants that are currently false, with the anomaly that reported them, by name */
+  violatedInvariants: Map<string, AnomalyChunk>
+  /** Open anomaly incidents, for cooldown, deduplication and resolution */
+  incidents: IncidentTracker
+  /** Action of the `set` call currently being processed, recorded by the middleware */
+  currentAction?: { name?: string; callSite?: string }
+  /** Detectors built from `anomalyDetection`, rebuilt when the rules or node budget change */
+  detectors?: { config: AnomalyDetectionConfig; maxNodes: number; list: AnomalyDetector[] }
+  /** Groups this store's sounds into chords, created on first use */
+  coalescer?: SonicCoalescer
+  /** Suppress every sound of the store; events and callbacks still fire */
+  muted?: boolean
+}
+
+/** Create the state for one store's core */
+export function createCoreInstance(storeName?: string): CoreInstance {
+  return {
+    storeName,
+    detectorMemory: new Map(),
+    redundantUpdates: { total: 0, byPath: {}, byAction: {} },
+    incidents: new IncidentTracker(),
+    violatedInvariants: new Map(),
+  }
+}
+
+// Instance used when coreImpl is called without one
+const defaultInstance = createCoreInstance()
+
 type CoreImpl = (
   currentState: unknown | Record<string, unknown>,
   prevState: unknown | Record<string, unknown>,
-  options: CoreOptions
+  options: CoreOptions,
+  instance?: CoreInstance
 ) => void
 
-function getValueByPath(obj: Record<string, unknown> | undefined, path: string): unknown {
-  if (!obj) return undefined
-  const keys = path.split('.')
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let current: any = obj
-  for (const key of keys) {
+const matchesTransitionValue = (value: unknown, matcher: TransitionMatcher): boolean => {
+  if (typeof matcher === 'function') return matcher(value)
+  if (Array.isArray(matcher)) return matcher.some(candidate => Object.is(candidate, value))
+  return Object.is(matcher, value)
+}
+
+/** Whether a watch path has conditions beyond its path */
+const isConditionalWatch = (watchConfig: WatchPathConfig): boolean =>
+  watchConfig.from !== undefined || watchConfig.to !== undefined || !!watchConfig.when
+
+/** Check a change against a watch path's `from`, `to` and `when` conditions */
+function matchesWatchConditions(watchConfig: WatchPathConfig, change: PathChange): boolean {
+  const { path, currentValue, previousValue } = change
+  try {
     if (
-      current &&
-      typeof current === 'object' &&
-      current !== null &&
-      Object.prototype.hasOwnProperty.call(current, key)
+      watchConfig.from !== undefined &&
+      !matchesTransitionValue(previousValue, watchConfig.from)
     ) {
-      current = current[key]
-    } else {
-      return undefined
+      return false
     }
+    if (watchConfig.to !== undefined && !matchesTransitionValue(currentValue, watchConfig.to)) {
+      return false
+    }
+    return !watchConfig.when || watchConfig.when(currentValue, previousValue, path)
+  } catch (err) {
+    console.error(`Watch path condition for "${watchConfig.path}" failed:`, err)
+    return false
   }
-  return current
 }
 
 /**
- * Check if a given path matches any of the configured watch paths.
- * Supports exact matching and prefix matching for nested paths.
+ * The change of the value at a watched path that `change` carries, if any.
+ * A change at or below the watched path is resolved to the watched path itself, so
+ * transitions compare e.g. the user rather than the user's name. A change above it,
+ * like "session" for a watched "session.user", counts when a value at the watched
+ * path changed with it.
  */
-function findMatchingWatchPath(
-  path: string,
-  watchPaths: WatchPathConfig[]
-): WatchPathConfig | undefined {
-  return watchPaths.find(watchConfig => {
-    const watchPath = watchConfig.path
-    // Exact match
-    if (path === watchPath) return true
-    // Prefix match for nested paths (e.g., "session.user" matches "session.user.id")
-    if (path.startsWith(`${watchPath}.`)) return true
-    return false
+function getWatchedChange(
+  change: PathChange,
+  watchConfig: WatchPathConfig,
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined
+): PathChange | undefined {
+  const { path } = change
+  const valuesAt = (watchedPath: string): PathChange => ({
+    path: watchedPath,
+    currentValue: getValueByPath(state, watchedPath),
+    previousValue: getValueByPath(prevState, watchedPath),
   })
+
+  if (matchPathPattern(path, watchConfig.path)) {
+    const watchedPath = getMatchedPath(path, watchConfig.path)
+    return watchedPath === path ? change : valuesAt(watchedPath)
+  }
+
+  return getChangesBelow(path, watchConfig.path, state, prevState)[0]
 }
 
-// Change tracking for anomaly detection - persistent across calls
-const changeTracker = new Map<string, number[]>()
+/**
+ * Changed values nested below `path` that `pattern` selects, e.g. "cart.total" for a
+ * change of "cart" and the pattern "cart.total". Lets rules on nested paths see changes
+ * that were reported for an ancestor, as happens for every nested path without `deep`.
+ */
+function getChangesBelow(
+  path: string,
+  pattern: string,
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined
+): PathChange[] {
+  const below = getPatternBelow(path, pattern)
+  if (below === undefined) return []
+
+  const candidates = new Set([
+    ...expandPathPattern(getValueByPath(state, path), below),
+    ...expandPathPattern(getValueByPath(prevState, path), below),
+  ])
+  const changes: PathChange[] = []
+  for (const relativePath of candidates) {
+    const nestedPath = `${path}.${relativePath}`
+    const currentValue = getValueByPath(state, nestedPath)
+    const previousValue = getValueByPath(prevState, nestedPath)
+    if (!Object.is(currentValue, previousValue)) {
+      changes.push({ path: nestedPath, currentValue, previousValue })
+    }
+  }
+  return changes
+}
+
+/** The changes a detector inspects: the change itself, or the changed values below it */
+function getDetectorChanges(
+  detector: AnomalyDetector,
+  change: DetectorChange,
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined
+): DetectorChange[] {
+  const { pathPattern } = detector
+  if (!pathPattern || matchPathPattern(change.path, pathPattern)) return [change]
+  if (pathPattern instanceof RegExp) return []
+  return getChangesBelow(change.path, pathPattern, state, prevState).map(nested => ({
+    ...nested,
+    timestamp: change.timestamp,
+  }))
+}
+
+/**
+ * Find the first watch path matching a change, with the change of the watched value.
+ * Supports exact, prefix and glob matching for nested paths, changes of an ancestor of
+ * the watched path, and transition conditions.
+ */
+function findMatchingWatchPath(
+  change: PathChange,
+  watchPaths: WatchPathConfig[],
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined
+): { watchConfig: WatchPathConfig; watched: PathChange } | undefined {
+  for (const watchConfig of watchPaths) {
+    const watched = getWatchedChange(change, watchConfig, state, prevState)
+    if (watched && matchesWatchConditions(watchConfig, watched)) return { watchConfig, watched }
+  }
+  return undefined
+}
 
 /**
- * Check if path matches pattern (string or RegExp)
+ * Check whether one update changed more paths, or more of the store, than allowed
  */
-function pathMatchesPattern(path: string, pattern: string | RegExp): boolean {
-  if (typeof pattern === 'string') {
-    return path === pattern || path.startsWith(`${pattern}.`)
+function checkFanOutAnomaly(
+  changedPaths: string[],
+  consideredPaths: string[],
+  config: NonNullable<AnomalyDetectionConfig['fanOut']>,
+  instance: CoreInstance
+): AnomalyChunk | null {
+  const { maxPaths, maxFraction } = config
+  const overCount = maxPaths !== undefined && changedPaths.length > maxPaths
+
+  let fraction = 0
+  if (maxFraction !== undefined && consideredPaths.length > 0) {
+    const touched = consideredPaths.filter(root =>
+      changedPaths.some(path => path === root || path.startsWith(`${root}.`))
+    )
+    fraction = touched.length / consideredPaths.length
+  }
+  const overFraction = maxFraction !== undefined && fraction > maxFraction
+
+  if (!overCount && !overFraction) return null
+
+  const { storeName } = instance
+  const now = performance.now()
+
+  return {
+    id: `anomaly-${storeName ? `${storeName}:` : ''}fan-out-${now}`,
+    type: 'fan-out',
+    // Not a single path: '*' stands for the whole store
+    path: '*',
+    storeName,
+    changeCount: changedPaths.length,
+    windowMs: 0,
+    timestamps: [now],
+    severity:
+      fraction === 1 || (maxPaths !== undefined && changedPaths.length >= maxPaths * 2)
+        ? 'critical'
+        : 'warning',
+    paths: changedPaths,
   }
-  return pattern.test(path)
 }
 
 /**
- * Clean old timestamps outside window and check for anomaly
+ * Check whether a path got a new reference with the same content, and count it if so
  */
-function checkRapidChangeAnomaly(
+function checkRedundantUpdate(
   path: string,
-  config: NonNullable<AnomalyDetectionConfig['rapidChange']>
+  value: unknown,
+  previousValue: unknown,
+  maxNodes: number,
+  instance: CoreInstance
 ): AnomalyChunk | null {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    typeof previousValue !== 'object' ||
+    previousValue === null ||
+    value === previousValue
+  ) {
+    return null
+  }
+
+  const nextHash = structuralHash(value, maxNodes)
+  const prevHash = structuralHash(previousValue, maxNodes)
+  if (!nextHash.complete || !prevHash.complete || nextHash.hash !== prevHash.hash) {
+    return null
+  }
+
+  return recordRedundantUpdate(path, instance)
+}
+
+/**
+ * Check whether an update replaced the state without changing any top-level value,
+ * and count it for the whole store ('*') if so
+ */
+function checkNoOpUpdate(
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined,
+  instance: CoreInstance
+): AnomalyChunk | null {
+  if (!prevState || state === prevState) return null
+  const keys = Object.keys(state)
+  if (keys.length !== Object.keys(prevState).length) return null
+  if (keys.some(key => !(key in prevState) || !Object.is(state[key], prevState[key]))) {
+    return null
+  }
+  return recordRedundantUpdate('*', instance)
+}
+
+/** Count a redundant update of a path and describe it as an anomaly */
+function recordRedundantUpdate(path: string, instance: CoreInstance): AnomalyChunk {
+  const { redundantUpdates, storeName } = instance
+  const actionName = instance.currentAction?.name
+  const actionKey = actionName ?? 'anonymous'
+  redundantUpdates.total++
+  redundantUpdates.byPath[path] = (redundantUpdates.byPath[path] ?? 0) + 1
+  redundantUpdates.byAction[actionKey] = (redundantUpdates.byAction[actionKey] ?? 0) + 1
+
   const now = performance.now()
-  const timestamps = changeTracker.get(path) || []
-
-  // Add current timestamp
-  timestamps.push(now)
-
-  // Clean old timestamps outside window
-  const cutoff = now - config.windowMs
-  const recentTimestamps = timestamps.filter(ts => ts >= cutoff)
-
-  // Update tracker with cleaned timestamps
-  changeTracker.set(path, recentTimestamps)
-
-  // Check if anomaly threshold exceeded
-  if (recentTimestamps.length >= config.count) {
-    const severity = recentTimestamps.length >= config.count * 1.5 ? 'critical' : 'warning'
-
-    return {
-      id: `anomaly-${path}-${now}`,
-      type: 'rapid-change',
-      path,
-      changeCount: recentTimestamps.length,
-      windowMs: config.windowMs,
-      timestamps: recentTimestamps,
-      severity,
+
+  return {
+    id: `anomaly-${storeName ? `${storeName}:` : ''}redundant-update:${path}-${now}`,
+    type: 'redundant-update',
+    path,
+    storeName,
+    actionName,
+    changeCount: redundantUpdates.byPath[path],
+    windowMs: 0,
+    timestamps: [now],
+    severity: 'warning',
+  }
+}
+
+/** Object references and hashes of the given paths and their descendants */
+function takeSnapshot(
+  state: Record<string, unknown>,
+  paths: string[],
+  maxDepth: number,
+  maxNodes: number
+): Map<string, SnapshotEntry> {
+  const snapshot = new Map<string, SnapshotEntry>()
+  for (const path of paths) {
+    collectSnapshot(path, getValueByPath(state, path), maxDepth, maxNodes, snapshot)
+  }
+  return snapshot
+}
+
+/**
+ * Snapshot the current state and compare it to the previous snapshot. Reports the deepest
+ * paths whose object kept its reference but changed content.
+ */
+function checkMutationAnomalies(
+  state: Record<string, unknown>,
+  paths: string[],
+  config: NonNullable<AnomalyDetectionConfig['mutation']>,
+  maxDepth: number,
+  maxNodes: number,
+  instance: CoreInstance
+): AnomalyChunk[] {
+  const previous = instance.mutationSnapshot
+  const next = takeSnapshot(state, paths, maxDepth, maxNodes)
+  instance.mutationSnapshot = next
+  if (!previous) return []
+
+  const mutated: string[] = []
+  for (const [path, entry] of previous) {
+    const current = next.get(path)
+    if (current && current.ref === entry.ref && current.hash !== entry.hash) {
+      mutated.push(path)
+    }
+  }
+
+  const { storeName } = instance
+  const actionName = instance.currentAction?.name
+  const now = performance.now()
+
+  return (
+    mutated
+      // Mutating `user.profile` also changes the content of `user`; report only the former
+      .filter(path => !mutated.some(other => other.startsWith(`${path}.`)))
+      .filter(path => !config.pathPattern || matchPathPattern(path, config.pathPattern))
+      .map(path => ({
+        id: `anomaly-${storeName ? `${storeName}:` : ''}mutation:${path}-${now}`,
+        type: 'mutation' as const,
+        path,
+        storeName,
+        actionName,
+        changeCount: 1,
+        windowMs: 0,
+        timestamps: [now],
+        severity: 'critical' as const,
+      }))
+  )
+}
+
+/** Report a redundant update as configured by `notify` */
+function notifyRedundantUpdate(
+  anomaly: AnomalyChunk,
+  config: NonNullable<AnomalyDetectionConfig['redundantUpdate']>,
+  options: CoreOptions,
+  context: ChunkCallbackContext,
+  instance: CoreInstance
+): void {
+  const { notify = 'anomaly' } = config
+  if (notify === 'anomaly') {
+    emitAnomaly(anomaly, config, options, context, instance)
+  } else if (notify === 'tick') {
+    sonifyRedundantUpdate(anomaly, config.tickSound, toSonicFilter(options, context, instance))
+  }
+}
+
+/** Call a user callback, treating a throw as "no opinion" so it cannot break the store */
+function invokeCallback<T>(
+  callback: ChunkCallback<T> | undefined,
+  chunk: T,
+  context: ChunkCallbackContext
+): boolean | void {
+  if (!callback) return
+  try {
+    return callback(chunk, context)
+  } catch (err) {
+    console.error('zusound callback failed:', err)
+  }
+}
+
+/**
+ * Wrap `onSonic` and the store's mute flag for the sonification functions, which know
+ * nothing about stores. The flag is read for each sound, so muting also silences sounds
+ * produced later by timers, like incident resolutions.
+ */
+const toSonicFilter =
+  (options: CoreOptions, context: ChunkCallbackContext, instance: CoreInstance) =>
+  (chunk: SonicChunk): boolean =>
+    !instance.muted && invokeCallback(options.onSonic, chunk, context) !== false
+
+/** The store's detectors for `config`, built once per options change */
+function getInstanceDetectors(
+  config: AnomalyDetectionConfig,
+  maxNodes: number,
+  instance: CoreInstance
+): AnomalyDetector[] {
+  const cached = instance.detectors
+  if (cached?.config === config && cached.maxNodes === maxNodes) return cached.list
+  const list = getDetectors(config, maxNodes)
+  instance.detectors = { config, maxNodes, list }
+  return list
+}
+
+/** Run a detector on one change, isolating the store from errors in custom detectors */
+function runDetector(
+  detector: AnomalyDetector,
+  change: DetectorChange,
+  context: ChunkCallbackContext,
+  instance: CoreInstance
+): DetectorFinding[] {
+  let memory = instance.detectorMemory.get(detector.name)
+  if (!memory) {
+    memory = new Map()
+    instance.detectorMemory.set(detector.name, memory)
+  }
+  const detectorContext: DetectorContext = {
+    ...context,
+    memory,
+    resolve: incidentKey =>
+      instance.incidents.resolve(getDetectorIncidentKey(detector, change.path, incidentKey)),
+  }
+
+  try {
+    const detected = detector.detect(change, detectorContext)
+    if (!detected) return []
+    return (Array.isArray(detected) ? detected : [detected]).map(anomaly =>
+      toAnomalyChunk(anomaly, detector, change, detectorContext)
+    )
+  } catch (err) {
+    console.error(`Anomaly detector "${detector.name}" failed:`, err)
+    return []
+  }
+}
+
+/** Dispatch a resolved chunk, notify `onResolved` and play the "all clear" sound */
+function emitResolved(
+  resolved: AnomalyChunk,
+  sound: Partial<SonicChunk> | false | undefined,
+  options: CoreOptions,
+  context: ChunkCallbackContext,
+  instance: CoreInstance,
+  sonify = sonifyResolved
+): void {
+  if (typeof window !== 'undefined') {
+    const resolvedEvent: ZusoundAnomalyResolvedEvent = new CustomEvent(
+      ANOMALY_RESOLVED_EVENT_NAME,
+      { detail: { chunk: resolved } }
+    )
+    window.dispatchEvent(resolvedEvent)
+  }
+
+  if (invokeCallback(options.onResolved, resolved, context) === false) return
+
+  if (sound !== false) {
+    sonify(resolved, sound, toSonicFilter(options, context, instance))
+  }
+}
+
+/** Dispatch an anomaly event, notify `onAnomaly` and play its alert sound */
+function dispatchAnomaly(
+  anomaly: AnomalyChunk,
+  alertSound: Partial<SonicChunk> | undefined,
+  options: CoreOptions,
+  context: ChunkCallbackContext,
+  instance: CoreInstance
+): void {
+  if (typeof window !== 'undefined') {
+    const anomalyEvent: ZusoundAnomalyEvent = new CustomEvent(ANOMALY_CHUNK_EVENT_NAME, {
+      detail: { chunk: anomaly },
+    })
+    window.dispatchEvent(anomalyEvent)
+  }
+
+  if (invokeCallback(options.onAnomaly, anomaly, context) === false) return
+
+  // Trigger anomaly-specific sonification
+  sonifyAnomaly(anomaly, alertSound, toSonicFilter(options, context, instance))
+}
+
+/**
+ * Merge an anomaly into its incident and dispatch it, unless the incident is cooling down.
+ * Without `incident`, the anomaly is a one-time event keyed by its type and path.
+ */
+function emitAnomaly(
+  anomaly: AnomalyChunk,
+  rule: {
+    alertSound?: Partial<SonicChunk>
+    customVisual?: CustomVisualConfig
+    cooldownMs?: number
+  },
+  options: CoreOptions,
+  context: ChunkCallbackContext,
+  instance: CoreInstance,
+  incident?: { key: string; resolution: IncidentResolution }
+): void {
+  const { anomalyDetection } = options
+  const alert = instance.incidents.report(
+    anomaly,
+    {
+      key: incident?.key ?? `${anomaly.type}:${anomaly.path}`,
+      resolution: incident?.resolution ?? 'none',
+      cooldownMs: rule.cooldownMs ?? anomalyDetection?.cooldownMs ?? DEFAULT_COOLDOWN_MS,
+      resolveAfterMs:
+        anomalyDetection?.resolveAfterMs ?? Math.max(DEFAULT_RESOLVE_AFTER_MS, anomaly.windowMs),
+    },
+    resolved => emitResolved(resolved, anomalyDetection?.resolvedSound, options, context, instance)
+  )
+  if (alert) {
+    const alertSound = rule.customVisual
+      ? { ...rule.alertSound, customVisual: rule.customVisual }
+      : rule.alertSound
+    dispatchAnomaly(alert, alertSound, options, context, instance)
+  }
+}
+
+/**
+ * Evaluate every invariant against the new state. A violation is dispatched as an
+ * 'invariant' anomaly once, when the invariant turns false, and resolved once it holds again.
+ */
+function checkInvariants(
+  state: unknown,
+  invariants: Invariant[],
+  options: CoreOptions,
+  context: ChunkCallbackContext,
+  instance: CoreInstance
+): void {
+  const { storeName, violatedInvariants } = instance
+
+  for (const invariant of invariants) {
+    let holds: boolean
+    try {
+      holds = invariant.check(state)
+    } catch (err) {
+      console.error(`Invariant "${invariant.name}" check failed:`, err)
+      continue
+    }
+
+    const violation = violatedInvariants.get(invariant.name)
+    if (!holds && !violation) {
+      const now = performance.now()
+      const anomaly: AnomalyChunk = {
+        id: `anomaly-${storeName ? `${storeName}:` : ''}invariant:${invariant.name}-${now}`,
+        type: 'invariant',
+        path: '*',
+        storeName,
+        changeCount: 1,
+        windowMs: 0,
+        timestamps: [now],
+        severity: invariant.level ?? 'warning',
+        invariant: invariant.name,
+        status: 'active',
+      }
+      violatedInvariants.set(invariant.name, anomaly)
+      dispatchAnomaly(anomaly, invariant.violatedSound, options, context, instance)
+    } else if (holds && violation) {
+      violatedInvariants.delete(invariant.name)
+      const resolved: AnomalyChunk = {
+        ...violation,
+        id: `${violation.id}-resolved`,
+        timestamps: [performance.now()],
+        status: 'resolved',
+      }
+      emitResolved(
+        resolved,
+        invariant.restoredSound,
+        options,
+        context,
+        instance,
+        sonifyInvariantRestored
+      )
     }
   }
+}
+
+/** Paths to diff: the top-level keys, or the paths matching `include` in either state */
+function getPathsToConsider(
+  state: Record<string, unknown>,
+  prevState: Record<string, unknown> | undefined,
+  include: string[] | undefined
+): string[] {
+  const literalOrGlob = include?.filter(pattern => !pattern.startsWith('!')) ?? []
+  if (literalOrGlob.length === 0) return Object.keys(state)
+
+  const expanded = new Set<string>()
+  for (const pattern of literalOrGlob) {
+    expandPathPattern(state, pattern).forEach(p => expanded.add(p))
+    expandPathPattern(prevState, pattern).forEach(p => expanded.add(p))
+  }
+  return [...expanded]
+}
 
-  return null
+/** Whether a path passes the `include` and `exclude` filters */
+function isPathSelected(
+  path: string,
+  include: string[] | undefined,
+  exclude: string[] | undefined
+): boolean {
+  return (
+    (!include || include.length === 0 || matchPathPatterns(path, include)) &&
+    (!exclude || exclude.length === 0 || !matchPathPatterns(path, exclude))
+  )
+}
+
+/**
+ * Take the mutation detection snapshot of a state without checking it, so that in-place
+ * mutations of the initial state are caught on the first update. Called by the middleware
+ * when it starts listening; does nothing unless mutation detection is enabled.
+ */
+export function snapshotState(
+  state: unknown,
+  options: CoreOptions,
+  instance: CoreInstance = defaultInstance
+): void {
+  const {
+    enabled = true,
+    include,
+    exclude,
+    anomalyDetection,
+    maxDepth = DEFAULT_MAX_DEPTH,
+  } = options
+  if (!enabled || !anomalyDetection?.mutation) return
+
+  const stateRecord = state as Record<string, unknown>
+  const maxNodes = options.diffBudget?.maxNodes ?? DEFAULT_DIFF_BUDGET.maxNodes
+  const paths = getPathsToConsider(stateRecord, undefined, include).filter(path =>
+    isPathSelected(path, include, exclude)
+  )
+  instance.mutationSnapshot = takeSnapshot(stateRecord, paths, maxDepth, maxNodes)
+}
+
+/**
+ * Diff an update and dispatch its chunks, anomalies and sounds. Runs inside the store's
+ * subscriber, so any error is logged instead of being thrown at the `set` call.
+ */
+export const coreImpl: CoreImpl = (
+  currentState,
+  prevState,
+  options,
+  instance = defaultInstance
+) => {
+  try {
+    processUpdate(currentState, prevState, options, instance)
+  } catch (err) {
+    console.error('zusound failed to process an update:', err)
+  }
 }
 
-export const coreImpl: CoreImpl = (currentState, prevState, options) => {
-  const { enabled = true, include, exclude, watchPaths = [], anomalyDetection } = options
+function processUpdate(
+  currentState: unknown,
+  prevState: unknown,
+  options: CoreOptions,
+  instance: CoreInstance
+): void {
+  const {
+    enabled = true,
+    include,
+    exclude,
+    watchPaths = [],
+    anomalyDetection,
+    deep = false,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    arrayKey,
+    diffBudget,
+    actions,
+    coalesce,
+  } = options
 
   if (!enabled) {
     return
   }
 
+  const context: ChunkCallbackContext = {
+    storeName: instance.storeName,
+    actionName: instance.currentAction?.name,
+    callSite: instance.currentAction?.callSite,
+  }
+
+  const maxNodes = diffBudget?.maxNodes ?? DEFAULT_DIFF_BUDGET.maxNodes
+  const detectors = anomalyDetection
+    ? getInstanceDetectors(anomalyDetection, maxNodes, instance)
+    : []
+  const now = performance.now()
+
   const currentStateRecord = currentState as Record<string, unknown>
   const prevStateRecord = prevState as Record<string, unknown> | undefined
 
   const diffChunks: DiffChunk[] = []
+  // Chunks whose sound was suppressed by `onDiff`
+  const silencedChunks = new Set<DiffChunk>()
 
-  let pathsToConsider: string[]
-
-  if (include && include.length > 0) {
-    pathsToConsider = [...include]
-  } else {
-    pathsToConsider = Object.keys(currentStateRecord)
-  }
+  const pathsToConsider = getPathsToConsider(currentStateRecord, prevStateRecord, include)
+  const isSelectedPath = (path: string): boolean => isPathSelected(path, include, exclude)
 
-  if (exclude && exclude.length > 0) {
-    pathsToConsider = pathsToConsider.filter(path => !exclude.includes(path))
-  }
+  const changes: PathChange[] = []
+  const redundantConfig = anomalyDetection?.redundantUpdate
 
   for (const path of pathsToConsider) {
     const currentValue = getValueByPath(currentStateRecord, path)
     const previousValue = getValueByPath(prevStateRecord, path)
 
+    if (typeof currentValue === 'function') continue
+
+    // Check for new references with identical content
     if (
-      typeof currentValue !== 'function' &&
-      (isDiffable(currentValue) || isDiffable(previousValue))
+      redundantConfig &&
+      isSelectedPath(path) &&
+      (!redundantConfig.pathPattern || matchPathPattern(path, redundantConfig.pathPattern))
     ) {
-      if (!Object.is(currentValue, previousValue)) {
-        let diffChunk = diff(path, currentValue, previousValue)
-
-        // Check if this path matches any critical watch paths
-        const matchingWatchConfig = findMatchingWatchPath(path, watchPaths)
-        if (matchingWatchConfig) {
-          // Augment the diffChunk with alert context
-          diffChunk = {
-            ...diffChunk,
-            alertLevel: matchingWatchConfig.alertLevel,
-            watchConfig: matchingWatchConfig,
-          }
+      const anomaly = checkRedundantUpdate(path, currentValue, previousValue, maxNodes, instance)
+      if (anomaly) {
+        notifyRedundantUpdate(anomaly, redundantConfig, options, context, instance)
+      }
+    }
+
+    if (deep) {
+      collectLeafChanges(path, currentValue, previousValue, maxDepth, arrayKey, changes)
+    } else if (!Object.is(currentValue, previousValue)) {
+      changes.push({ path, currentValue, previousValue })
+    }
+  }
+
+  // Check for updates that replaced the state without changing anything
+  if (redundantConfig && !redundantConfig.pathPattern) {
+    const anomaly = checkNoOpUpdate(currentStateRecord, prevStateRecord, instance)
+    if (anomaly) {
+      notifyRedundantUpdate(anomaly, redundantConfig, options, context, instance)
+    }
+  }
+
+  const selectedChanges = changes.filter(({ path }) => isSelectedPath(path))
+
+  for (const { path, currentValue, previousValue } of selectedChanges) {
+    if (isDiffable(currentValue) || isDiffable(previousValue)) {
+      let diffChunk = diff(path, currentValue, previousValue, {
+        arrayKey,
+        budget: diffBudget,
+      })
+      if (instance.storeName !== undefined) {
+        diffChunk.storeName = instance.storeName
+      }
+      if (instance.currentAction?.name !== undefined) {
+        diffChunk.actionName = instance.currentAction.name
+      }
+      if (instance.currentAction?.callSite !== undefined) {
+        diffChunk.callSite = instance.currentAction.callSite
+      }
+
+      // Check if this path matches any critical watch paths
+      const matchingWatch = findMatchingWatchPath(
+        { path, currentValue, previousValue },
+        watchPaths,
+        currentStateRecord,
+        prevStateRecord
+      )
+      if (matchingWatch) {
+        const { watchConfig, watched } = matchingWatch
+        // Augment the diffChunk with alert context
+        diffChunk = {
+          ...diffChunk,
+          alertLevel: watchConfig.alertLevel,
+          watchConfig,
         }
+        if (isConditionalWatch(watchConfig)) {
+          diffChunk.transition = { from: watched.previousValue, to: watched.currentValue }
+        }
+      }
 
-        // Check for rapid change anomaly
-        if (anomalyDetection?.rapidChange) {
-          const rapidConfig = anomalyDetection.rapidChange
-
-          // Check if path matches pattern (if specified)
-          const shouldCheck =
-            !rapidConfig.pathPattern || pathMatchesPattern(path, rapidConfig.pathPattern)
-
-          if (shouldCheck) {
-            const anomaly = checkRapidChangeAnomaly(path, rapidConfig)
-            if (anomaly) {
-              // Dispatch anomaly event
-              const anomalyEvent: ZusoundAnomalyEvent = new CustomEvent(ANOMALY_CHUNK_EVENT_NAME, {
-                detail: { chunk: anomaly },
-              })
-              window.dispatchEvent(anomalyEvent)
-
-              // Trigger anomaly-specific sonification
-              import('../sonification/sonification')
-                .then(({ sonifyAnomaly }) => {
-                  sonifyAnomaly(anomaly, rapidConfig.alertSound)
+      // Run the built-in and custom anomaly detectors
+      const change: DetectorChange = { path, currentValue, previousValue, timestamp: now }
+      for (const detector of detectors) {
+        getDetectorChanges(detector, change, currentStateRecord, prevStateRecord).forEach(
+          detectorChange =>
+            runDetector(detector, detectorChange, context, instance).forEach(
+              ({ anomaly, incidentKey, resolution }) =>
+                emitAnomaly(anomaly, detector, options, context, instance, {
+                  key: incidentKey,
+                  resolution,
                 })
-                .catch(err => {
-                  console.error('Failed to import anomaly sonification:', err)
-                })
-            }
-          }
-        }
+            )
+        )
+      }
 
-        const event: ZusoundDiffEvent = new CustomEvent(DIFF_CHUNK_EVENT_NAME, {
-          detail: { chunk: diffChunk },
-        })
+      const event: ZusoundDiffEvent = new CustomEvent(DIFF_CHUNK_EVENT_NAME, {
+        detail: { chunk: diffChunk },
+      })
+      if (typeof window !== 'undefined') {
         window.dispatchEvent(event)
-        diffChunks.push(diffChunk)
+      }
+      diffChunks.push(diffChunk)
+      if (invokeCallback(options.onDiff, diffChunk, context) === false) {
+        silencedChunks.add(diffChunk)
       }
     }
   }
 
+  // Check for objects changed in place since the last update
+  if (anomalyDetection?.mutation) {
+    const mutationConfig = anomalyDetection.mutation
+    checkMutationAnomalies(
+      currentStateRecord,
+      pathsToConsider.filter(isSelectedPath),
+      mutationConfig,
+      maxDepth,
+      maxNodes,
+      instance
+    )
+      // Nested paths of a selected path may still be excluded
+      .filter(anomaly => isSelectedPath(anomaly.path))
+      .forEach(anomaly => emitAnomaly(anomaly, mutationConfig, options, context, instance))
+  }
+
+  if (options.invariants && options.invariants.length > 0) {
+    checkInvariants(currentState, options.invariants, options, context, instance)
+  }
+
+  // Check for updates touching too many paths at once
+  if (anomalyDetection?.fanOut && diffChunks.length > 0) {
+    const fanOutConfig = anomalyDetection.fanOut
+    // Actions and excluded paths can never change, so they do not count towards the store
+    const statePaths = pathsToConsider.filter(
+      path => typeof getValueByPath(currentStateRecord, path) !== 'function' && isSelectedPath(path)
+    )
+    const anomaly = checkFanOutAnomaly(
+      diffChunks.map(chunk => chunk.path),
+      statePaths,
+      fanOutConfig,
+      instance
+    )
+    if (anomaly) {
+      emitAnomaly(anomaly, fanOutConfig, options, context, instance)
+    }
+  }
+
+  let coalescer: SonicCoalescer | undefined
+  if (coalesce?.enabled !== false && diffChunks.length > 0) {
+    instance.coalescer ??= new SonicCoalescer()
+    instance.coalescer.setConfig(coalesce ?? {})
+    coalescer = instance.coalescer
+  }
+
   diffChunks.forEach(diffChunk => {
+    if (silencedChunks.has(diffChunk)) return
     // Pass the watch configuration to sonifyChanges for enhanced audio and visual events
-    sonifyChanges(diffChunk, 100, diffChunk.watchConfig)
+    const actionSound = diffChunk.actionName ? actions?.sounds?.[diffChunk.actionName] : undefined
+    sonifyChanges(
+      diffChunk,
+      100,
+      diffChunk.watchConfig,
+      actionSound,
+      coalescer,
+      toSonicFilter(options, context, instance)
+    )
   })
 }
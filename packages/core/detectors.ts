@@ -0,0 +1,524 @@
+// packages/core/detectors.ts
+import { AnomalyChunk, AnomalyType, SonicChunk } from '../shared-types'
+import { structuralHash, getValueType } from '../diff'
+import { matchPathPattern } from './path-matcher'
+import type { IncidentResolution } from './incidents'
+import type {
+  AnomalyCustomVisualConfig,
+  AnomalyDetectionConfig,
+  ChunkCallbackContext,
+  NumericBounds,
+  RangeAnomalyRule,
+} from './core'
+
+/** A single changed path, as seen by a detector */
+export interface DetectorChange {
+  path: string
+  currentValue: unknown
+  previousValue: unknown
+  /** `performance.now()` at the time of the update */
+  timestamp: number
+}
+
+/** Store context passed to a detector */
+export interface DetectorContext<M = unknown> extends ChunkCallbackContext {
+  /**
+   * State kept across updates for this detector (by name) and store, e.g. recent
+   * values keyed by path. Starts empty.
+   */
+  memory: Map<string, M>
+  /**
+   * Resolve this detector's open 'recovery' incident on the changed path, e.g. once a
+   * value is back in its range. `incidentKey` must match the one the anomaly was reported with.
+   */
+  resolve(incidentKey?: string): void
+}
+
+/**
+ * Anomaly reported by a detector. Omitted fields default to: `type` the detector name,
+ * `path` the changed path, `changeCount` 1, `windowMs` 0 and `timestamps` the update time.
+ */
+export type DetectedAnomaly = Partial<AnomalyChunk> &
+  Pick<AnomalyChunk, 'severity'> & {
+    /**
+     * Tells apart incidents of one detector on one path, e.g. different thresholds.
+     * Anomalies with the same detector, path and key are merged into one incident.
+     */
+    incidentKey?: string
+    /** How the incident ends, overriding the detector's `resolution` */
+    resolution?: IncidentResolution
+  }
+
+/** An anomaly found by a detector, with the incident it belongs to */
+export interface DetectorFinding {
+  anomaly: AnomalyChunk
+  incidentKey: string
+  resolution: IncidentResolution
+}
+
+/**
+ * Anomaly detector run for every changed path.
+ *
+ * @example
+ * ```typescript
+ * const ORDER = ['cart', 'paid', 'shipped', 'delivered']
+ * const statusWentBackwards: AnomalyDetector = {
+ *   name: 'status-regression',
+ *   pathPattern: 'orders.*.status',
+ *   detect: ({ currentValue, previousValue }) =>
+ *     ORDER.indexOf(String(currentValue)) < ORDER.indexOf(String(previousValue))
+ *       ? { severity: 'critical', value: currentValue, previousValue }
+ *       : null,
+ * }
+ * ```
+ */
+export interface AnomalyDetector<M = unknown> {
+  /**
+   * Unique name, used as the anomaly `type` unless the detector sets one. The built-in
+   * anomaly types ('rapid-change', 'oscillation', 'range', 'type-change', 'growth', 'fan-out',
+   * 'redundant-update', 'mutation', 'invariant') are reserved; a detector with a reserved or
+   * already used name is ignored.
+   */
+  name: string
+  /**
+   * Optional path pattern filter (glob string or RegExp). A glob pattern deeper than a
+   * changed path, e.g. 'cart.total' for a change of 'cart' without `deep`, runs the
+   * detector on each changed value it selects below. RegExp patterns only test the
+   * changed path.
+   */
+  pathPattern?: string | RegExp
+  /** Inspect one change and return the anomalies it represents, if any */
+  detect(
+    change: DetectorChange,
+    context: DetectorContext<M>
+  ): DetectedAnomaly | DetectedAnomaly[] | null | undefined
+  /** Custom alert sound properties */
+  alertSound?: Partial<SonicChunk>
+  /** Custom visual properties */
+  customVisual?: AnomalyCustomVisualConfig
+  /** Minimum time between alerts for the same incident, overrides the shared `cooldownMs` */
+  cooldownMs?: number
+  /**
+   * How this detector's incidents end, see {@link IncidentResolution}. Defaults to 'none':
+   * each anomaly is a one-time event and no "all clear" is ever played for it.
+   */
+  resolution?: IncidentResolution
+}
+
+/** Key of a detector's incident on one path */
+export function getDetectorIncidentKey(
+  detector: AnomalyDetector,
+  path: string,
+  incidentKey?: string
+): string {
+  return `${detector.name}:${path}${incidentKey !== undefined ? `:${incidentKey}` : ''}`
+}
+
+/** Fill in the fields a detector left out */
+export function toAnomalyChunk(
+  detected: DetectedAnomaly,
+  detector: AnomalyDetector,
+  change: DetectorChange,
+  context: DetectorContext
+): DetectorFinding {
+  const { storeName } = context
+  const { incidentKey, resolution, ...fields } = detected
+  const path = fields.path ?? change.path
+  const suffix = incidentKey !== undefined ? `-${incidentKey}` : ''
+
+  return {
+    anomaly: {
+      // Several detectors may fire on the same path in one update
+      id: `anomaly-${storeName ? `${storeName}:` : ''}${detector.name}:${path}${suffix}-${change.timestamp}`,
+      type: detector.name,
+      path,
+      storeName,
+      changeCount: 1,
+      windowMs: 0,
+      timestamps: [change.timestamp],
+      ...fields,
+    },
+    incidentKey: getDetectorIncidentKey(detector, path, incidentKey),
+    resolution: resolution ?? detector.resolution ?? 'none',
+  }
+}
+
+/**
+ * Rapid-change detector: records change timestamps per path and fires when
+ * `count` changes happen within `windowMs`
+ */
+export function createRapidChangeDetector(
+  config: NonNullable<AnomalyDetectionConfig['rapidChange']>
+): AnomalyDetector<number[]> {
+  let nextPruneAt = 0
+  return {
+    name: 'rapid-change',
+    pathPattern: config.pathPattern,
+    alertSound: config.alertSound,
+    customVisual: config.customVisual,
+    cooldownMs: config.cooldownMs,
+    resolution: 'quiet',
+    detect({ path, timestamp }, { memory }) {
+      // Clean old timestamps outside window
+      const cutoff = timestamp - config.windowMs
+      // Forget paths that stopped changing, at most once per window
+      if (timestamp >= nextPruneAt) {
+        for (const [stalePath, timestamps] of memory) {
+          if (timestamps[timestamps.length - 1] < cutoff) memory.delete(stalePath)
+        }
+        nextPruneAt = timestamp + config.windowMs
+      }
+
+      const recentTimestamps = (memory.get(path) || []).filter(ts => ts >= cutoff)
+      recentTimestamps.push(timestamp)
+      memory.set(path, recentTimestamps)
+
+      // Check if anomaly threshold exceeded
+      if (recentTimestamps.length < config.count) return null
+
+      return {
+        changeCount: recentTimestamps.length,
+        windowMs: config.windowMs,
+        timestamps: recentTimestamps,
+        severity: recentTimestamps.length >= config.count * 1.5 ? 'critical' : 'warning',
+      }
+    },
+  }
+}
+
+/** A value a path held, with an identity key for comparing it to other values */
+interface ValueHistoryEntry {
+  key: string
+  value: unknown
+  timestamp: number
+}
+
+/**
+ * Identity of a value for equality checks: primitives by value, objects by content
+ * within `maxNodes` nodes
+ */
+function getValueKey(value: unknown, maxNodes: number): string {
+  if (typeof value === 'object' && value !== null) {
+    return `object:${structuralHash(value, maxNodes).hash}`
+  }
+  return `${typeof value}:${String(value)}`
+}
+
+/**
+ * Oscillation detector: records recent values per path and counts A→B→A reversals
+ * within `windowMs`
+ */
+export function createOscillationDetector(
+  config: NonNullable<AnomalyDetectionConfig['oscillation']>,
+  maxNodes: number
+): AnomalyDetector<ValueHistoryEntry[]> {
+  let nextPruneAt = 0
+  return {
+    name: 'oscillation',
+    pathPattern: config.pathPattern,
+    alertSound: config.alertSound,
+    customVisual: config.customVisual,
+    cooldownMs: config.cooldownMs,
+    resolution: 'quiet',
+    detect({ path, currentValue, timestamp }, { memory }) {
+      const cutoff = timestamp - config.windowMs
+      // Forget paths that stopped changing, at most once per window
+      if (timestamp >= nextPruneAt) {
+        for (const [stalePath, entries] of memory) {
+          if (entries[entries.length - 1].timestamp < cutoff) memory.delete(stalePath)
+        }
+        nextPruneAt = timestamp + config.windowMs
+      }
+
+      const history = (memory.get(path) || []).filter(entry => entry.timestamp >= cutoff)
+      history.push({ key: getValueKey(currentValue, maxNodes), value: currentValue, timestamp })
+      memory.set(path, history)
+
+      let reversals = 0
+      for (let i = 2; i < history.length; i++) {
+        if (history[i].key === history[i - 2].key && history[i].key !== history[i - 1].key) {
+          reversals++
+        }
+      }
+
+      if (reversals < config.reversals) return null
+
+      const distinctValues = new Map(history.map(entry => [entry.key, entry.value]))
+      return {
+        changeCount: history.length,
+        windowMs: config.windowMs,
+        timestamps: history.map(entry => entry.timestamp),
+        severity: reversals >= config.reversals * 2 ? 'critical' : 'warning',
+        reversals,
+        values: [...distinctValues.values()],
+      }
+    },
+  }
+}
+
+const isOutside = (value: number, bounds?: NumericBounds): boolean =>
+  !!bounds &&
+  ((bounds.min !== undefined && value < bounds.min) ||
+    (bounds.max !== undefined && value > bounds.max))
+
+/** 0 = within range, 1 = outside the warning band, 2 = outside the critical band */
+function getRangeLevel(value: unknown, rule: RangeAnomalyRule): 0 | 1 | 2 {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0
+  if (isOutside(value, rule.critical)) return 2
+  if (isOutside(value, rule.warning)) return 1
+  return 0
+}
+
+/**
+ * Range detector: fires when a number enters a worse band, and resolves once it is back
+ * within range. Threshold crossings are one-time events, one incident per threshold and
+ * direction. `ruleIndex` tells apart several rules on the same path.
+ */
+export function createRangeDetector(rule: RangeAnomalyRule, ruleIndex = 0): AnomalyDetector {
+  return {
+    name: 'range',
+    pathPattern: rule.pathPattern,
+    alertSound: rule.alertSound,
+    customVisual: rule.customVisual,
+    cooldownMs: rule.cooldownMs,
+    detect({ currentValue: value, previousValue }, { resolve }) {
+      const bandKey = `${ruleIndex}:band`
+      const previousLevel = getRangeLevel(previousValue, rule)
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        // A value that is gone or not a number is no longer out of range
+        if (previousLevel > 0) resolve(bandKey)
+        return null
+      }
+
+      const anomalies: DetectedAnomaly[] = []
+      const level = getRangeLevel(value, rule)
+      if (level === 0 && previousLevel > 0) {
+        resolve(bandKey)
+      } else if (level > previousLevel) {
+        const bounds = (level === 2 ? rule.critical : rule.warning) as NumericBounds
+        const belowMin = bounds.min !== undefined && value < bounds.min
+        anomalies.push({
+          incidentKey: bandKey,
+          resolution: 'recovery',
+          severity: level === 2 ? 'critical' : 'warning',
+          value,
+          previousValue,
+          threshold: belowMin ? bounds.min : bounds.max,
+          direction: belowMin ? 'down' : 'up',
+        })
+      }
+
+      if (rule.thresholds && typeof previousValue === 'number') {
+        for (const entry of rule.thresholds) {
+          const { value: threshold, severity = 'warning' } =
+            typeof entry === 'number' ? { value: entry } : entry
+          const crossedUp = previousValue < threshold && value >= threshold
+          const crossedDown = previousValue >= threshold && value < threshold
+          if (crossedUp || crossedDown) {
+            const direction = crossedUp ? 'up' : 'down'
+            anomalies.push({
+              incidentKey: `${ruleIndex}:threshold:${threshold}:${direction}`,
+              severity,
+              value,
+              previousValue,
+              threshold,
+              direction,
+            })
+          }
+        }
+      }
+
+      return anomalies
+    },
+  }
+}
+
+/**
+ * Type-change detector: fires when a path switches value type, ignoring allowed
+ * nullable transitions
+ */
+export function createTypeChangeDetector(
+  config: NonNullable<AnomalyDetectionConfig['typeChange']>
+): AnomalyDetector {
+  return {
+    name: 'type-change',
+    pathPattern: config.pathPattern,
+    alertSound: config.alertSound,
+    customVisual: config.customVisual,
+    cooldownMs: config.cooldownMs,
+    detect({ path, currentValue: value, previousValue }) {
+      if (previousValue === undefined) return null
+
+      const fromType = getValueType(previousValue)
+      const toType = getValueType(value)
+      if (fromType === toType) return null
+
+      const isNullable = value === null || value === undefined || previousValue === null
+      if (isNullable) {
+        const { allowNullable = false } = config
+        const allowed = Array.isArray(allowNullable)
+          ? allowNullable.some(pattern => matchPathPattern(path, pattern))
+          : allowNullable
+        if (allowed) return null
+      }
+
+      return {
+        // Losing a value is often expected; a value changing shape is almost always a bug
+        severity: isNullable ? 'warning' : 'critical',
+        value,
+        previousValue,
+        fromType,
+        toType,
+      }
+    },
+  }
+}
+
+/** Default number of consecutive growing updates for growth detection */
+const DEFAULT_GROWTH_SAMPLES = 5
+
+/** Time after which the growth history of a path that stopped changing is forgotten */
+const GROWTH_HISTORY_MS = 60_000
+
+/** Size of a value at one update */
+interface SizeSample {
+  size: number
+  timestamp: number
+}
+
+/** Item count of an array, Map, Set or object, or null for other values */
+function getItemCount(value: unknown): number | null {
+  if (typeof value !== 'object' || value === null) return null
+  if (Array.isArray(value)) return value.length
+  if (value instanceof Map || value instanceof Set) return value.size
+  if (ArrayBuffer.isView(value) || value instanceof Date) return null
+  return Object.keys(value).length
+}
+
+/**
+ * Growth detector: fires when a path has been growing for several updates, past a
+ * size or rate. Only the last `minSamples` growing updates are kept, and the rate is
+ * measured across them. The streak starts over after an anomaly, so a steady leak
+ * fires every `minSamples` updates. Paths that did not change for a minute are forgotten.
+ */
+export function createGrowthDetector(
+  config: NonNullable<AnomalyDetectionConfig['growth']>,
+  maxNodes: number
+): AnomalyDetector<SizeSample[]> {
+  let nextPruneAt = 0
+  return {
+    name: 'growth',
+    pathPattern: config.pathPattern,
+    alertSound: config.alertSound,
+    customVisual: config.customVisual,
+    cooldownMs: config.cooldownMs,
+    resolution: 'quiet',
+    detect({ path, currentValue: value, timestamp }, { memory }) {
+      if (timestamp >= nextPruneAt) {
+        const cutoff = timestamp - GROWTH_HISTORY_MS
+        for (const [stalePath, samples] of memory) {
+          if (samples[samples.length - 1].timestamp < cutoff) memory.delete(stalePath)
+        }
+        nextPruneAt = timestamp + GROWTH_HISTORY_MS
+      }
+
+      const count = getItemCount(value)
+      if (count === null) {
+        memory.delete(path)
+        return null
+      }
+
+      const size = config.measure === 'bytes' ? structuralHash(value, maxNodes).size : count
+      const history = memory.get(path) || []
+      const last = history[history.length - 1]
+
+      if (last && size === last.size) return null
+      if (last && size < last.size) {
+        memory.set(path, [{ size, timestamp }])
+        return null
+      }
+
+      const minSamples = config.minSamples ?? DEFAULT_GROWTH_SAMPLES
+      history.push({ size, timestamp })
+      if (history.length > minSamples + 1) history.shift()
+      memory.set(path, history)
+      if (history.length <= minSamples) return null
+
+      const first = history[0]
+      const elapsedMs = timestamp - first.timestamp
+      const rate = ((size - first.size) * 1000) / Math.max(1, elapsedMs)
+      const { maxSize, maxRate } = config
+      const overSize = maxSize !== undefined && size > maxSize
+      const overRate = maxRate !== undefined && rate > maxRate
+      if ((maxSize !== undefined || maxRate !== undefined) && !overSize && !overRate) {
+        return null
+      }
+
+      memory.set(path, [{ size, timestamp }])
+      const severity =
+        (maxSize !== undefined && size >= maxSize * 2) ||
+        (maxRate !== undefined && rate >= maxRate * 2)
+          ? 'critical'
+          : 'warning'
+
+      return {
+        changeCount: history.length - 1,
+        windowMs: elapsedMs,
+        timestamps: history.map(sample => sample.timestamp),
+        severity,
+        sizes: history.map(sample => sample.size),
+        growthRate: rate,
+      }
+    },
+  }
+}
+
+/** The named members of `AnomalyType`, without the catch-all `string` */
+type BuiltInAnomalyType = AnomalyType extends infer T
+  ? T extends string
+    ? string extends T
+      ? never
+      : T
+    : never
+  : never
+
+/**
+ * Anomaly types of the built-in rules, which custom detectors cannot use as names.
+ * Typed against `AnomalyType`, so a new built-in type must be added here.
+ */
+const BUILT_IN_ANOMALY_TYPES: Record<BuiltInAnomalyType, true> = {
+  'rapid-change': true,
+  oscillation: true,
+  range: true,
+  'type-change': true,
+  growth: true,
+  'fan-out': true,
+  'redundant-update': true,
+  mutation: true,
+  invariant: true,
+}
+
+/**
+ * Detectors for the built-in per-path rules in `config`, followed by
+ * `config.detectors`. Detectors share memory by name, so a custom detector with a reserved
+ * or already used name is left out.
+ */
+export function getDetectors(config: AnomalyDetectionConfig, maxNodes: number): AnomalyDetector[] {
+  const detectors: AnomalyDetector[] = []
+  if (config.rapidChange) detectors.push(createRapidChangeDetector(config.rapidChange))
+  if (config.oscillation) detectors.push(createOscillationDetector(config.oscillation, maxNodes))
+  config.range?.forEach((rule, index) => detectors.push(createRangeDetector(rule, index)))
+  if (config.typeChange) detectors.push(createTypeChangeDetector(config.typeChange))
+  if (config.growth) detectors.push(createGrowthDetector(config.growth, maxNodes))
+
+  const names = new Set<string>(Object.keys(BUILT_IN_ANOMALY_TYPES))
+  for (const detector of config.detectors ?? []) {
+    if (names.has(detector.name)) {
+      console.error(`Anomaly detector "${detector.name}" is ignored: its name is already used`)
+      continue
+    }
+    names.add(detector.name)
+    detectors.push(detector)
+  }
+  return detectors
+}
@@ -0,0 +1,135 @@
+// packages/core/incidents.ts
+import { AnomalyChunk, getAlertPriority } from '../shared-types'
+
+/** Default minimum time between alerts for the same incident */
+export const DEFAULT_COOLDOWN_MS = 1000
+
+/** Default quiet period after which a rate-based incident is resolved */
+export const DEFAULT_RESOLVE_AFTER_MS = 1000
+
+/**
+ * How an incident ends:
+ * - quiet: resolved once no anomaly arrived for `resolveAfterMs` (rate-based rules)
+ * - recovery: resolved when the detector reports that the condition is over, e.g. a
+ *   value back in its range
+ * - none: a one-time event that is never resolved; repeats are only merged during the cooldown
+ */
+export type IncidentResolution = 'quiet' | 'recovery' | 'none'
+
+/** How one anomaly is merged into an incident, from the rule and `anomalyDetection` options */
+export interface IncidentOptions {
+  /** Identity of the incident; anomalies with the same key are merged */
+  key: string
+  resolution: IncidentResolution
+  /** Minimum time between alerts; repeated anomalies in between are only counted */
+  cooldownMs: number
+  /** Time without a new anomaly after which a 'quiet' incident is resolved */
+  resolveAfterMs: number
+}
+
+interface Incident {
+  id: string
+  count: number
+  severity: AnomalyChunk['severity']
+  latest: AnomalyChunk
+  lastAlertAt: number
+  resolution: IncidentResolution
+  timer: ReturnType<typeof setTimeout> | null
+  onResolved: (chunk: AnomalyChunk) => void
+}
+
+/**
+ * Merges repeated anomalies with the same key into one incident with a counter.
+ * An incident alerts once, then at most once per cooldown (or immediately when it
+ * escalates to a higher-priority level). Depending on its resolution, it is resolved
+ * after a quiet period, when `resolve` is called, or silently forgotten after the cooldown.
+ */
+export class IncidentTracker {
+  private incidents = new Map<string, Incident>()
+
+  /**
+   * Record an anomaly.
+   * @returns The chunk to alert with, or null while the incident is cooling down
+   */
+  public report(
+    anomaly: AnomalyChunk,
+    options: IncidentOptions,
+    onResolved: (chunk: AnomalyChunk) => void
+  ): AnomalyChunk | null {
+    const { key, resolution } = options
+    const now = performance.now()
+
+    let incident = this.incidents.get(key)
+    if (!incident) {
+      incident = {
+        id: anomaly.id,
+        count: 0,
+        severity: anomaly.severity,
+        latest: anomaly,
+        lastAlertAt: -Infinity,
+        resolution,
+        timer: null,
+        onResolved,
+      }
+      this.incidents.set(key, incident)
+    }
+
+    incident.count++
+    const escalated = getAlertPriority(anomaly.severity) > getAlertPriority(incident.severity)
+    if (escalated) incident.severity = anomaly.severity
+    incident.latest = {
+      ...anomaly,
+      severity: incident.severity,
+      incidentId: incident.id,
+      occurrences: incident.count,
+      ...(resolution !== 'none' && { status: 'active' as const }),
+    }
+    incident.onResolved = onResolved
+
+    // Every occurrence restarts the quiet period
+    if (incident.timer !== null) clearTimeout(incident.timer)
+    incident.timer = null
+    if (resolution === 'quiet') {
+      incident.timer = setTimeout(() => this.resolve(key), options.resolveAfterMs)
+    } else if (resolution === 'none') {
+      incident.timer = setTimeout(() => this.incidents.delete(key), options.cooldownMs)
+    }
+
+    if (!escalated && now - incident.lastAlertAt < options.cooldownMs) return null
+    incident.lastAlertAt = now
+    return incident.latest
+  }
+
+  /** Resolve an open incident now, notifying its `onResolved` callback */
+  public resolve(key: string): void {
+    const incident = this.incidents.get(key)
+    if (!incident || incident.resolution === 'none') return
+    if (incident.timer !== null) clearTimeout(incident.timer)
+    this.incidents.delete(key)
+
+    const now = performance.now()
+    incident.onResolved({
+      ...incident.latest,
+      id: `${incident.id}-resolved`,
+      timestamps: [now],
+      status: 'resolved',
+    })
+  }
+
+  /** Number of incidents that are not resolved yet, not counting one-time events */
+  public get openCount(): number {
+    let count = 0
+    this.incidents.forEach(incident => {
+      if (incident.resolution !== 'none') count++
+    })
+    return count
+  }
+
+  /** Drop all open incidents without resolving them */
+  public clear(): void {
+    this.incidents.forEach(incident => {
+      if (incident.timer !== null) clearTimeout(incident.timer)
+    })
+    this.incidents.clear()
+  }
+}
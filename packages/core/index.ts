@@ -1,6 +1,59 @@
-import { coreImpl, CoreOptions, AnomalyDetectionConfig } from './core'
+import {
+  coreImpl,
+  createCoreInstance,
+  snapshotState,
+  CoreOptions,
+  CoreInstance,
+  AnomalyDetectionConfig,
+  ActionConfig,
+  RangeAnomalyRule,
+  NumericBounds,
+  RedundantUpdateStats,
+  ChunkCallback,
+  ChunkCallbackContext,
+  Invariant,
+} from './core'
+import {
+  AnomalyDetector,
+  DetectorChange,
+  DetectorContext,
+  DetectedAnomaly,
+  createRapidChangeDetector,
+  createOscillationDetector,
+  createRangeDetector,
+  createTypeChangeDetector,
+  createGrowthDetector,
+} from './detectors'
+import type { IncidentResolution } from './incidents'
+import type { StatePathPattern } from './path-matcher'
 
 const core = coreImpl
 
-export type { CoreOptions, AnomalyDetectionConfig }
+export {
+  createCoreInstance,
+  snapshotState,
+  createRapidChangeDetector,
+  createOscillationDetector,
+  createRangeDetector,
+  createTypeChangeDetector,
+  createGrowthDetector,
+}
+export type {
+  CoreOptions,
+  CoreInstance,
+  AnomalyDetectionConfig,
+  ActionConfig,
+  RangeAnomalyRule,
+  NumericBounds,
+  RedundantUpdateStats,
+  ChunkCallback,
+  ChunkCallbackContext,
+  Invariant,
+  AnomalyDetector,
+  DetectorChange,
+  DetectorContext,
+  DetectedAnomaly,
+  IncidentResolution,
+  StatePathPattern,
+}
 export default core
@@ -0,0 +1,317 @@
+/**
+ * Path pattern matching shared by `include`, `exclude`, `watchPaths` and anomaly rules.
+ *
+ * Patterns are dot-separated, like state paths, and support:
+ * - `*`  matches exactly one segment (object key or array index), e.g. "todos.*.done"
+ * - `**` matches any number of segments, including none, e.g. "**.error"
+ * - a leading `!` negates the pattern, e.g. "!user.password"
+ *
+ * A pattern also matches every path nested below what it matches, so "session.user"
+ * matches "session.user.id".
+ */
+
+/** A pattern split into its segments and negation flag */
+export interface CompiledPathPattern {
+  source: string
+  negated: boolean
+  segments: string[]
+}
+
+const SINGLE_WILDCARD = '*'
+const DEEP_WILDCARD = '**'
+
+const compiledCache = new Map<string, CompiledPathPattern>()
+
+/** Parse a pattern string. Results are cached, since the same patterns are used on every update. */
+export function compilePathPattern(pattern: string): CompiledPathPattern {
+  let compiled = compiledCache.get(pattern)
+  if (!compiled) {
+    const negated = pattern.startsWith('!')
+    const body = negated ? pattern.slice(1) : pattern
+    compiled = {
+      source: pattern,
+      negated,
+      segments: body === '' ? [] : body.split('.'),
+    }
+    compiledCache.set(pattern, compiled)
+  }
+  return compiled
+}
+
+/** Check whether a pattern contains wildcards or negation, i.e. is not a literal path */
+export function isPathGlob(pattern: string): boolean {
+  const { negated, segments } = compilePathPattern(pattern)
+  return negated || segments.some(s => s === SINGLE_WILDCARD || s === DEEP_WILDCARD)
+}
+
+function matchSegments(
+  pathSegments: string[],
+  pathIndex: number,
+  patternSegments: string[],
+  patternIndex: number
+): boolean {
+  // Whole pattern consumed: the path is either the matched node or nested below it
+  if (patternIndex === patternSegments.length) return true
+
+  const segment = patternSegments[patternIndex]
+
+  if (segment === DEEP_WILDCARD) {
+    return (
+      matchSegments(pathSegments, pathIndex, patternSegments, patternIndex + 1) ||
+      (pathIndex < pathSegments.length &&
+        matchSegments(pathSegments, pathIndex + 1, patternSegments, patternIndex))
+    )
+  }
+
+  if (pathIndex === pathSegments.length) return false
+
+  if (segment === SINGLE_WILDCARD || segment === pathSegments[pathIndex]) {
+    return matchSegments(pathSegments, pathIndex + 1, patternSegments, patternIndex + 1)
+  }
+
+  return false
+}
+
+/**
+ * Check if a path matches a single pattern.
+ * RegExp patterns are tested against the full path as-is.
+ * A negated string pattern matches every path the rest of the pattern does not.
+ */
+export function matchPathPattern(path: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(path)
+  }
+  const { negated, segments } = compilePathPattern(pattern)
+  const matched = matchSegments(path.split('.'), 0, segments, 0)
+  return negated ? !matched : matched
+}
+
+/**
+ * Check if a path is selected by a list of patterns.
+ * Patterns are evaluated in order and the last one that matches wins, so negations
+ * can carve exceptions out of earlier patterns (e.g. `["user", "!user.password"]`).
+ * A list made only of negations starts from "everything selected".
+ */
+export function matchPathPatterns(path: string, patterns: string[]): boolean {
+  const compiled = patterns.map(compilePathPattern)
+  let selected = compiled.every(p => p.negated)
+  const pathSegments = path.split('.')
+
+  for (const { negated, segments } of compiled) {
+    if (matchSegments(pathSegments, 0, segments, 0)) {
+      selected = !negated
+    }
+  }
+
+  return selected
+}
+
+/** Limits on the walk that resolves a glob pattern into the paths it selects in a value */
+export interface ExpandLimits {
+  /** Maximum number of segments of a resolved path */
+  maxDepth: number
+  /** Maximum number of objects and arrays visited */
+  maxNodes: number
+}
+
+export const DEFAULT_EXPAND_LIMITS: ExpandLimits = {
+  maxDepth: 8,
+  maxNodes: 2000,
+}
+
+/** State of one pattern expansion, shared by the whole walk */
+interface ExpandWalk {
+  limits: ExpandLimits
+  /** Objects on the current path, so that circular references are not followed */
+  ancestors: Set<object>
+  /** Objects visited so far */
+  nodes: number
+  results: Set<string>
+}
+
+function expandSegments(
+  value: unknown,
+  prefix: string,
+  depth: number,
+  segments: string[],
+  index: number,
+  walk: ExpandWalk
+): void {
+  if (index === segments.length) {
+    if (prefix) walk.results.add(prefix)
+    return
+  }
+
+  const segment = segments[index]
+  const join = (key: string) => (prefix ? `${prefix}.${key}` : key)
+
+  if (segment === DEEP_WILDCARD) {
+    // Zero segments consumed
+    expandSegments(value, prefix, depth, segments, index + 1, walk)
+  }
+
+  if (typeof value !== 'object' || value === null) return
+  if (walk.ancestors.has(value) || depth >= walk.limits.maxDepth) return
+  if (++walk.nodes > walk.limits.maxNodes) return
+
+  const record = value as Record<string, unknown>
+  walk.ancestors.add(value)
+  if (segment === DEEP_WILDCARD) {
+    // One or more segments consumed
+    for (const key of Object.keys(record)) {
+      expandSegments(record[key], join(key), depth + 1, segments, index, walk)
+    }
+  } else if (segment === SINGLE_WILDCARD) {
+    for (const key of Object.keys(record)) {
+      expandSegments(record[key], join(key), depth + 1, segments, index + 1, walk)
+    }
+  } else if (Object.prototype.hasOwnProperty.call(record, segment)) {
+    expandSegments(record[segment], join(segment), depth + 1, segments, index + 1, walk)
+  }
+  walk.ancestors.delete(value)
+}
+
+/**
+ * The concrete path a pattern selected when matching `path`, i.e. `path` without the
+ * nested part below the match: "todos.3" for "todos.3.done" and "todos.*". Patterns
+ * containing `**` or a negation select `path` itself.
+ */
+export function getMatchedPath(path: string, pattern: string): string {
+  const { negated, segments } = compilePathPattern(pattern)
+  if (negated || segments.includes(DEEP_WILDCARD)) return path
+  return path.split('.').slice(0, segments.length).join('.')
+}
+
+/**
+ * The rest of a pattern below `path`, when the pattern selects paths nested below it:
+ * "user.name" for "session" and "session.user.name", "*.done" for "todos" and "todos.*.done".
+ * Undefined when the pattern cannot select anything below `path`, or when `**` or a
+ * negation makes that open-ended.
+ */
+export function getPatternBelow(path: string, pattern: string): string | undefined {
+  const { negated, segments } = compilePathPattern(pattern)
+  const pathSegments = path.split('.')
+  if (negated || segments.length <= pathSegments.length) return undefined
+  for (let i = 0; i < pathSegments.length; i++) {
+    const segment = segments[i]
+    if (segment === DEEP_WILDCARD) return undefined
+    if (segment !== SINGLE_WILDCARD && segment !== pathSegments[i]) return undefined
+  }
+  const below = segments.slice(pathSegments.length)
+  return below.includes(DEEP_WILDCARD) ? undefined : below.join('.')
+}
+
+/**
+ * Resolve a (non-negated) pattern into the concrete paths it selects in `obj`.
+ * Literal patterns are returned unchanged, whether or not they exist. Trailing `**`
+ * segments are dropped, because a matched path already covers everything below it.
+ * The walk does not follow circular references and stops at `limits`, so paths deeper
+ * than `maxDepth` or beyond the first `maxNodes` objects are not selected.
+ */
+export function expandPathPattern(
+  obj: unknown,
+  pattern: string,
+  limits: Partial<ExpandLimits> = {}
+): string[] {
+  if (!isPathGlob(pattern)) return [pattern]
+
+  const segments = [...compilePathPattern(pattern).segments]
+  while (segments.length > 0 && segments[segments.length - 1] === DEEP_WILDCARD) {
+    segments.pop()
+  }
+
+  if (segments.length === 0) {
+    return typeof obj === 'object' && obj !== null ? Object.keys(obj) : []
+  }
+
+  const walk: ExpandWalk = {
+    limits: { ...DEFAULT_EXPAND_LIMITS, ...limits },
+    ancestors: new Set(),
+    nodes: 0,
+    results: new Set(),
+  }
+  expandSegments(obj, '', 0, segments, 0, walk)
+  return [...walk.results]
+}
+
+/** Levels of nesting `StatePathPattern` checks; deeper segments are accepted unchecked */
+type PatternDepth = [never, 0, 1, 2, 3, 4, 5]
+
+/** Values with no children to address */
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date
+
+/** Keys of the non-function members of `T` */
+type PathSegment<T> = {
+  [K in keyof T & string]: T[K] extends (...args: never[]) => unknown ? never : K
+}[keyof T & string]
+
+/** Children of `T` that the segment `K` selects: a member, an array item, or any member for `*` */
+type PathChild<T, K extends string> = T extends readonly (infer Item)[]
+  ? K extends '*' | `${number}`
+    ? Item
+    : never
+  : K extends '*'
+    ? T[PathSegment<T>]
+    : K extends PathSegment<T>
+      ? T[K]
+      : never
+
+/**
+ * Whether the segments of `P` lead through `T`, walking one segment per level. Unions like
+ * `User | null` are checked per member, so the result is `true` if `P` fits any member.
+ * Only the given pattern is walked, so the cost does not grow with the size of the state.
+ */
+type IsPathPattern<T, P extends string, D extends number> = [D] extends [never]
+  ? true
+  : P extends '**' | `**.${string}`
+    ? true
+    : T extends unknown
+      ? unknown extends T
+        ? true
+        : T extends PathLeaf
+          ? false
+          : T extends Map<unknown, unknown> | Set<unknown>
+            ? true
+            : P extends `${infer Head}.${infer Rest}`
+              ? IsPathPattern<PathChild<T, Head>, Rest, PatternDepth[D]>
+              : [PathChild<T, P>] extends [never]
+                ? false
+                : true
+      : never
+
+/**
+ * Member paths of `T` up to `D` levels deep ("user", "user.profile"), offered as
+ * completions. Arrays, maps and sets are not entered, which keeps the union small.
+ */
+type StatePath<T, D extends number> = [D] extends [0]
+  ? never
+  : unknown extends T
+    ? never
+    : T extends PathLeaf | Map<unknown, unknown> | Set<unknown> | readonly unknown[]
+      ? never
+      : { [K in PathSegment<T>]: K | `${K}.${StatePath<T[K], PatternDepth[D]>}` }[PathSegment<T>]
+
+/** `P` if it is a path pattern of `S`, otherwise a message naming the invalid pattern */
+type CheckedPathPattern<S, P extends string> = P extends `!${infer Pattern}`
+  ? true extends IsPathPattern<S, Pattern, 6>
+    ? P
+    : `Not a path of the state: ${P}`
+  : true extends IsPathPattern<S, P, 6>
+    ? P
+    : `Not a path of the state: ${P}`
+
+/**
+ * `P` if it is a path pattern of a state of type `S`, otherwise a message naming the
+ * invalid pattern, which then shows up in the type error. Patterns are dot-separated paths
+ * through `S` ("user.profile.name", "todos.3.done") where any segment may be `*`, optionally
+ * followed by `**`, or starting with `**.`, and optionally negated with a leading `!`.
+ * Each pattern literal is checked on its own, so `P` must be inferred from the literals,
+ * as the `zusound` middleware does. Without a known state type or literal, any string
+ * is accepted. With a known state type, its paths up to three levels deep are part of
+ * the type, so editors suggest them.
+ */
+export type StatePathPattern<S, P extends string = string> = unknown extends S
+  ? string extends P
+    ? string
+    : P
+  : StatePath<S, 3> | (string extends P ? string & Record<never, never> : CheckedPathPattern<S, P>)
@@ -0,0 +1,162 @@
+import { structuralHash } from '../diff'
+
+/** Reference and content hash of an object held at some path */
+export interface SnapshotEntry {
+  ref: object
+  hash: number
+}
+
+/** A single changed path together with its previous and next values */
+export interface PathChange {
+  path: string
+  currentValue: unknown
+  previousValue: unknown
+}
+
+export function getValueByPath(obj: Record<string, unknown> | undefined, path: string): unknown {
+  if (!obj) return undefined
+  const keys = path.split('.')
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let current: any = obj
+  for (const key of keys) {
+    if (
+      current &&
+      typeof current === 'object' &&
+      current !== null &&
+      Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      current = current[key]
+    } else {
+      return undefined
+    }
+  }
+  return current
+}
+
+/**
+ * Check whether a value is a container the deep walker should descend into.
+ * Only plain objects and arrays are walked; class instances are treated as leaves.
+ */
+function isWalkable(value: unknown): value is Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) return true
+  if (typeof value !== 'object' || value === null) return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Whether items of an array kept in length now sit at other indexes: an item whose
+ * `arrayKey` differs from the previous item at its index, or an item (by reference, or
+ * value for primitives) that was at another index before.
+ */
+function hasReorderedItems(current: unknown[], previous: unknown[], arrayKey?: string): boolean {
+  const keyOf = (item: unknown): unknown =>
+    arrayKey && typeof item === 'object' && item !== null && arrayKey in item
+      ? `key:${String((item as Record<string, unknown>)[arrayKey])}`
+      : undefined
+
+  const displaced = new Set<unknown>()
+  const changedIndexes: number[] = []
+  for (let i = 0; i < current.length; i++) {
+    if (Object.is(current[i], previous[i])) continue
+    const currentKey = keyOf(current[i])
+    const previousKey = keyOf(previous[i])
+    if (currentKey !== undefined && previousKey !== undefined && currentKey !== previousKey) {
+      return true
+    }
+    displaced.add(previous[i])
+    changedIndexes.push(i)
+  }
+  return changedIndexes.some(i => displaced.has(current[i]))
+}
+
+/**
+ * Walk nested objects and arrays and collect one change per differing leaf path.
+ * Subtrees that share the same reference are skipped. When `maxDepth` is reached,
+ * when the two values are not both objects (or both arrays), or when an array changed
+ * length or had its items reordered, the whole value at that path is reported as a
+ * single change. Reporting such arrays whole keeps their inserts, removals and moves
+ * detectable as array operations instead of a change on every shifted index. References
+ * back to an object on the current path are not followed, so a change in a circular
+ * structure is reported once.
+ *
+ * @param path - Path of the values being compared (e.g. "user.profile")
+ * @param currentValue - Next value at `path`
+ * @param previousValue - Previous value at `path`
+ * @param maxDepth - Number of levels below `path` the walker may descend
+ * @param arrayKey - Field identifying object items of arrays, see `CoreOptions.arrayKey`
+ * @param changes - Accumulator the changes are pushed into
+ * @param ancestors - Objects of both values on the path down to `path`
+ */
+export function collectLeafChanges(
+  path: string,
+  currentValue: unknown,
+  previousValue: unknown,
+  maxDepth: number,
+  arrayKey?: string,
+  changes: PathChange[] = [],
+  ancestors: Set<unknown> = new Set()
+): PathChange[] {
+  if (Object.is(currentValue, previousValue)) return changes
+  if (ancestors.has(currentValue) || ancestors.has(previousValue)) return changes
+
+  const bothWalkable =
+    isWalkable(currentValue) &&
+    isWalkable(previousValue) &&
+    Array.isArray(currentValue) === Array.isArray(previousValue) &&
+    (!Array.isArray(currentValue) ||
+      (currentValue.length === (previousValue as unknown[]).length &&
+        !hasReorderedItems(currentValue, previousValue as unknown[], arrayKey)))
+
+  if (!bothWalkable || maxDepth <= 0) {
+    changes.push({ path, currentValue, previousValue })
+    return changes
+  }
+
+  const current = currentValue as Record<string, unknown>
+  const previous = previousValue as Record<string, unknown>
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)])
+
+  ancestors.add(current).add(previous)
+  for (const key of keys) {
+    const next = current[key]
+    const prev = previous[key]
+    if (typeof next === 'function' || typeof prev === 'function') continue
+    collectLeafChanges(`${path}.${key}`, next, prev, maxDepth - 1, arrayKey, changes, ancestors)
+  }
+  ancestors.delete(current)
+  ancestors.delete(previous)
+
+  return changes
+}
+
+/**
+ * Record the reference and content hash of every object at or below `path`, down to
+ * `maxDepth` levels. Comparing two snapshots finds objects that kept their reference
+ * but changed content, i.e. were mutated in place.
+ *
+ * @param path - Path of `value` (e.g. "user")
+ * @param value - Value to record
+ * @param maxDepth - Number of levels below `path` the walker may descend
+ * @param maxNodes - Node budget for hashing each object
+ * @param snapshot - Accumulator the entries are stored into, keyed by path
+ */
+export function collectSnapshot(
+  path: string,
+  value: unknown,
+  maxDepth: number,
+  maxNodes: number,
+  snapshot: Map<string, SnapshotEntry> = new Map()
+): Map<string, SnapshotEntry> {
+  if (typeof value !== 'object' || value === null) return snapshot
+
+  snapshot.set(path, { ref: value, hash: structuralHash(value, maxNodes).hash })
+  if (maxDepth <= 0 || !isWalkable(value)) return snapshot
+
+  const record = value as Record<string, unknown>
+  for (const key of Object.keys(record)) {
+    collectSnapshot(`${path}.${key}`, record[key], maxDepth - 1, maxNodes, snapshot)
+  }
+
+  return snapshot
+}
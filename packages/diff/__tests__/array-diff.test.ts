@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { diffArrays } from '../array-diff'
+
+describe('diffArrays', () => {
+  it('returns no operations for arrays with the same content', () => {
+    expect(diffArrays([1, { a: 1 }, 'x'], [1, { a: 1 }, 'x'])).toEqual([])
+  })
+
+  it('reports appended and removed items', () => {
+    expect(diffArrays([1, 2], [1, 2, 3])).toEqual([{ type: 'insert', index: 2 }])
+    expect(diffArrays([1, 2, 3], [1, 3])).toEqual([{ type: 'remove', index: 1 }])
+  })
+
+  it('reports an item replaced in place as an update', () => {
+    expect(diffArrays(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([{ type: 'update', index: 1 }])
+  })
+
+  it('matches duplicate items in order', () => {
+    expect(diffArrays([1, 1, 2], [1, 2])).toEqual([{ type: 'remove', index: 1 }])
+  })
+
+  describe('moves', () => {
+    it('moves only the item that left the longest preserved order', () => {
+      expect(diffArrays(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'])).toEqual([
+        { type: 'move', from: 3, to: 0 },
+      ])
+      expect(diffArrays(['a', 'b', 'c', 'd'], ['b', 'c', 'd', 'a'])).toEqual([
+        { type: 'move', from: 0, to: 3 },
+      ])
+    })
+
+    it('keeps one item in place when swapping two', () => {
+      const operations = diffArrays(['a', 'b'], ['b', 'a']) ?? []
+      expect(operations).toHaveLength(1)
+      expect(operations[0].type).toBe('move')
+    })
+
+    it('moves all but one item of a reversed array', () => {
+      const operations = diffArrays([1, 2, 3, 4, 5], [5, 4, 3, 2, 1]) ?? []
+      expect(operations).toHaveLength(4)
+      expect(operations.every(operation => operation.type === 'move')).toBe(true)
+    })
+
+    it('keeps the order of the longest increasing run among interleaved moves', () => {
+      // 1, 3 and 5 keep their relative order; 4 and 2 move
+      const operations = diffArrays([1, 2, 3, 4, 5], [4, 1, 3, 5, 2])
+      expect(operations).toEqual([
+        { type: 'move', from: 3, to: 0 },
+        { type: 'move', from: 1, to: 4 },
+      ])
+    })
+  })
+
+  describe('with a key', () => {
+    const item = (id: number, title: string) => ({ id, title })
+
+    it('reports a content change of a keyed item as an update', () => {
+      expect(
+        diffArrays([item(1, 'a'), item(2, 'b')], [item(1, 'a'), item(2, 'B')], { key: 'id' })
+      ).toEqual([{ type: 'update', index: 1 }])
+    })
+
+    it('reports a moved and edited item as both', () => {
+      const operations = diffArrays(
+        [item(1, 'a'), item(2, 'b'), item(3, 'c')],
+        [item(3, 'C'), item(1, 'a'), item(2, 'b')],
+        { key: 'id' }
+      )
+      expect(operations).toEqual([
+        { type: 'move', from: 2, to: 0 },
+        { type: 'update', index: 0 },
+      ])
+    })
+
+    it('identifies items without the key by their content', () => {
+      expect(diffArrays([{ title: 'a' }, item(1, 'b')], [item(1, 'b')], { key: 'id' })).toEqual([
+        { type: 'remove', index: 0 },
+      ])
+    })
+  })
+
+  describe('node budget', () => {
+    /** Rows whose fields count how often they are read while hashing */
+    const countingRows = (count: number, reads: { count: number }) =>
+      Array.from({ length: count }, (_, id) => ({
+        id,
+        get title() {
+          reads.count++
+          return `row ${id}`
+        },
+      }))
+
+    it('shares one budget across all items and gives up once it is spent', () => {
+      const reads = { count: 0 }
+      const rows = countingRows(2000, reads)
+      expect(diffArrays(rows, [...rows].reverse(), { maxNodes: 500 })).toBeUndefined()
+      expect(reads.count).toBeLessThanOrEqual(500)
+    })
+
+    it('spends the budget on content checks of keyed items too', () => {
+      const reads = { count: 0 }
+      const rows = countingRows(2000, reads)
+      const refetched = countingRows(2000, reads)
+      expect(diffArrays(rows, refetched, { key: 'id', maxNodes: 500 })).toBeUndefined()
+      expect(reads.count).toBeLessThanOrEqual(500)
+    })
+
+    it('identifies primitive items without spending it', () => {
+      const numbers = Array.from({ length: 100 }, (_, i) => i)
+      expect(diffArrays(numbers, [...numbers.slice(1), 0], { maxNodes: 1 })).toEqual([
+        { type: 'move', from: 0, to: 99 },
+      ])
+    })
+  })
+})
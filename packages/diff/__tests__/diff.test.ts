@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { diffImpl } from '../diff'
+
+describe('diffImpl', () => {
+  it('measures changes from the previous value to the next one', () => {
+    expect(diffImpl('count', 5, 2)).toMatchObject({ type: 'add', diffPower: 3 })
+    expect(diffImpl('count', 2, 5)).toMatchObject({ type: 'remove', diffPower: -3 })
+  })
+
+  it('reports values appearing as added and disappearing as removed', () => {
+    expect(diffImpl('user', { name: 'a' }, null)).toMatchObject({ type: 'add', diffPower: 1 })
+    expect(diffImpl('user', null, { name: 'a' })).toMatchObject({ type: 'remove', diffPower: -1 })
+  })
+
+  it('falls back to an estimate for arrays past the node budget', () => {
+    const rows = Array.from({ length: 2000 }, (_, id) => ({ id, title: `row ${id}`, done: false }))
+    const reordered = [...rows].reverse()
+    const refetched = rows.map(row => ({ ...row }))
+
+    for (const [next, arrayKey] of [
+      [reordered, undefined],
+      [refetched, 'id'],
+    ] as const) {
+      const started = performance.now()
+      const chunk = diffImpl('rows', next, rows, { arrayKey })
+      expect(performance.now() - started).toBeLessThan(250)
+      expect(chunk.estimated).toBe(true)
+      expect(chunk.arrayOperations).toBeUndefined()
+    }
+  })
+
+  it('compares Map entries by key, matching object keys by identity', () => {
+    expect(
+      diffImpl(
+        'm',
+        new Map([
+          ['a', 1],
+          ['b', 2],
+        ]),
+        new Map([['a', 1]])
+      )
+    ).toMatchObject({
+      type: 'add',
+      valueType: 'map',
+      diff: '1',
+      diffPower: 1,
+    })
+
+    // Equal-looking keys are still different entries
+    const first = { id: 1 }
+    const second = { id: 1 }
+    const swapped = diffImpl(
+      'm',
+      new Map([
+        [first, 2],
+        [second, 1],
+      ]),
+      new Map([
+        [first, 1],
+        [second, 2],
+      ])
+    )
+    expect(swapped).toMatchObject({ type: 'change', diff: '2', diffPower: 0 })
+    expect(diffImpl('m', new Map([[second, 'x']]), new Map([[first, 'x']]))).toMatchObject({
+      diff: '2',
+    })
+  })
+
+  it('compares Set members by content', () => {
+    expect(diffImpl('s', new Set([{ a: 1 }, 2]), new Set([{ a: 1 }]))).toMatchObject({
+      type: 'add',
+      valueType: 'set',
+      diff: '1',
+      diffPower: 1,
+    })
+    expect(diffImpl('s', new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toMatchObject({ diff: '0' })
+  })
+
+  it('measures Dates in time moved and BigInts by their difference', () => {
+    expect(diffImpl('at', new Date(5000), new Date(2000))).toMatchObject({
+      id: '"Date(1970-01-01T00:00:05.000Z)"',
+      valueType: 'date',
+      diff: '3000',
+      diffPower: 3,
+    })
+    expect(diffImpl('total', 10n, 15n)).toMatchObject({
+      id: '"10n"',
+      type: 'remove',
+      valueType: 'bigint',
+      diffPower: -5,
+    })
+  })
+
+  it('compares typed arrays by their items', () => {
+    const chunk = diffImpl('bytes', new Uint8Array([1, 2, 4]), new Uint8Array([1, 2, 3]))
+    expect(chunk).toMatchObject({ id: '[1,2,4]', diff: '1', estimated: false })
+    expect(diffImpl('bytes', new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toMatchObject({
+      diff: '0',
+    })
+  })
+
+  it('handles values that refer back to themselves', () => {
+    const prev: Record<string, unknown> = { name: 'a' }
+    prev.self = prev
+    const next: Record<string, unknown> = { name: 'b' }
+    next.self = next
+    expect(diffImpl('node', next, prev)).toMatchObject({
+      id: '{"name":"b","self":"[Circular]"}',
+      diff: '1',
+      estimated: false,
+    })
+  })
+
+  it('shares one node budget across the entries of a collection', () => {
+    const rows = Array.from({ length: 2000 }, (_, id): [number, object] => [
+      id,
+      { id, title: `row ${id}` },
+    ])
+    const prev = new Map(rows)
+
+    const started = performance.now()
+    const refetched = diffImpl('rows', new Map(rows.map(([id, row]) => [id, { ...row }])), prev)
+    expect(performance.now() - started).toBeLessThan(250)
+    expect(refetched.estimated).toBe(true)
+
+    // Entries kept by reference are skipped and leave the budget to the changed one
+    const next = new Map(prev).set(7, { id: 7, title: 'renamed' })
+    expect(diffImpl('rows', next, prev)).toMatchObject({ diff: '1', estimated: false })
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { structuralHash } from '../hash'
+
+const hashOf = (value: unknown, maxNodes = 1000) => structuralHash(value, maxNodes).hash
+
+describe('structuralHash', () => {
+  it('hashes equal values equally, whatever their references', () => {
+    expect(hashOf({ a: [1, { b: 'x' }] })).toBe(hashOf({ a: [1, { b: 'x' }] }))
+    expect(hashOf(new Map([['k', new Set([1, 2])]]))).toBe(
+      hashOf(new Map([['k', new Set([1, 2])]]))
+    )
+    expect(hashOf(new Date(0))).toBe(hashOf(new Date(0)))
+    expect(hashOf(10n)).toBe(hashOf(10n))
+  })
+
+  it('tells different values apart', () => {
+    expect(hashOf({ a: 1 })).not.toBe(hashOf({ a: 2 }))
+    expect(hashOf({ a: 1 })).not.toBe(hashOf({ b: 1 }))
+    expect(hashOf(['ab'])).not.toBe(hashOf(['a', 'b']))
+    expect(hashOf([1, 2])).not.toBe(hashOf({ 0: 1, 1: 2 }))
+    expect(hashOf(1)).not.toBe(hashOf('1'))
+    expect(hashOf(1n)).not.toBe(hashOf(1))
+    expect(hashOf(new Date(0))).not.toBe(hashOf(new Date(1)))
+  })
+
+  it('looks inside Map, Set and typed arrays', () => {
+    expect(hashOf(new Map([['k', 1]]))).not.toBe(hashOf(new Map([['k', 2]])))
+    expect(hashOf(new Set([1]))).not.toBe(hashOf(new Set([2])))
+    expect(hashOf(new Uint8Array([1, 2]))).toBe(hashOf([1, 2]))
+  })
+
+  it('depends on object key order', () => {
+    expect(hashOf({ a: 1, b: 2 })).not.toBe(hashOf({ b: 2, a: 1 }))
+  })
+
+  it('hashes circular references as a placeholder', () => {
+    const a: Record<string, unknown> = { name: 'node' }
+    a.self = a
+    const b: Record<string, unknown> = { name: 'node' }
+    b.self = b
+    const result = structuralHash(a, 100)
+    expect(result.complete).toBe(true)
+    expect(result.hash).toBe(hashOf(b))
+  })
+
+  it('hashes shared references that are not ancestors in full', () => {
+    const shared = { v: 1 }
+    expect(hashOf({ a: shared, b: shared })).toBe(hashOf({ a: { v: 1 }, b: { v: 1 } }))
+  })
+
+  it('counts visited nodes and reports completeness', () => {
+    expect(structuralHash({ a: 1, b: [2, 3] }, 100)).toMatchObject({ nodes: 5, complete: true })
+    expect(structuralHash({ a: 1, b: [2, 3] }, 3)).toMatchObject({ nodes: 3, complete: false })
+  })
+
+  it('estimates the JSON length of the value', () => {
+    const value = { a: 1, b: [true, 'x'] }
+    expect(structuralHash(value, 100).size).toBe(JSON.stringify(value).length)
+  })
+
+  it('stops within the budget on large arrays', () => {
+    const rows = Array.from({ length: 200_000 }, (_, id) => ({ id, name: `row ${id}` }))
+    const start = performance.now()
+    const result = structuralHash(rows, 100)
+    expect(performance.now() - start).toBeLessThan(50)
+    expect(result).toMatchObject({ nodes: 100, complete: false })
+  })
+})
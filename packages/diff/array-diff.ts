@@ -0,0 +1,147 @@
+import type { ArrayOperation } from '../shared-types'
+import { structuralHash } from './hash'
+
+/** Options for structural array diffing */
+export interface ArrayDiffOptions {
+  /**
+   * Field used to identify object items across versions (e.g. "id").
+   * Items without this field, and primitive items, are identified by their content.
+   */
+  key?: string
+  /** Maximum number of nested values hashed in total, across all items of both arrays */
+  maxNodes?: number
+}
+
+const DEFAULT_MAX_NODES = 2000
+
+/**
+ * Hash items against one node budget for the whole diff, so that the cost is bounded by
+ * the budget rather than by the number of items. Returns undefined once the budget is spent.
+ */
+const createItemHasher = (maxNodes: number) => {
+  let remaining = maxNodes
+  return (item: unknown): number | undefined => {
+    const { hash, nodes, complete } = structuralHash(item, remaining)
+    remaining -= nodes
+    return complete ? hash : undefined
+  }
+}
+
+/**
+ * Indices (into `values`) of one longest strictly increasing subsequence.
+ * Matched items on this subsequence kept their relative order; all others moved.
+ */
+const longestIncreasingSubsequence = (values: number[]): Set<number> => {
+  const tails: number[] = []
+  const previous: number[] = new Array(values.length).fill(-1)
+
+  values.forEach((value, i) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (values[tails[mid]] < value) low = mid + 1
+      else high = mid
+    }
+    if (low > 0) previous[i] = tails[low - 1]
+    tails[low] = i
+  })
+
+  const result = new Set<number>()
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1
+  while (index !== -1) {
+    result.add(index)
+    index = previous[index]
+  }
+  return result
+}
+
+/**
+ * Compute per-item operations between two arrays, or undefined when hashing the items
+ * would take more than `options.maxNodes` nodes.
+ *
+ * Items are matched by identity (`options.key` for objects, a structural hash of their
+ * content otherwise).
+ * Unmatched next items are inserts and unmatched previous items are removals, except
+ * when both sit at the same index, which is reported as an update. Matched items that
+ * left the longest run of preserved order are moves, and matched keyed items whose
+ * content changed are updates.
+ */
+export const diffArrays = (
+  prev: unknown[],
+  next: unknown[],
+  options: ArrayDiffOptions = {}
+): ArrayOperation[] | undefined => {
+  const { key, maxNodes = DEFAULT_MAX_NODES } = options
+  const hashItem = createItemHasher(maxNodes)
+
+  const getItemIdentity = (item: unknown): string | undefined => {
+    if (key && typeof item === 'object' && item !== null && key in item) {
+      return `key:${String((item as Record<string, unknown>)[key])}`
+    }
+    // Primitives are identified by their value, without spending the node budget
+    if (typeof item !== 'object' || item === null) return `${typeof item}:${String(item)}`
+    const hash = hashItem(item)
+    return hash === undefined ? undefined : `value:${hash}`
+  }
+
+  // Identity -> unused previous indices, in order
+  const available = new Map<string, number[]>()
+  for (let index = 0; index < prev.length; index++) {
+    const identity = getItemIdentity(prev[index])
+    if (identity === undefined) return undefined
+    const indices = available.get(identity)
+    if (indices) indices.push(index)
+    else available.set(identity, [index])
+  }
+
+  const matches: { from: number; to: number }[] = []
+  const unmatchedNext = new Set<number>()
+
+  for (let index = 0; index < next.length; index++) {
+    const identity = getItemIdentity(next[index])
+    if (identity === undefined) return undefined
+    const indices = available.get(identity)
+    if (indices && indices.length > 0) {
+      matches.push({ from: indices.shift() as number, to: index })
+    } else {
+      unmatchedNext.add(index)
+    }
+  }
+
+  const matchedPrev = new Set(matches.map(m => m.from))
+  const unmatchedPrev = new Set<number>()
+  prev.forEach((_, index) => {
+    if (!matchedPrev.has(index)) unmatchedPrev.add(index)
+  })
+
+  const operations: ArrayOperation[] = []
+
+  // Same slot replaced in place: an update rather than a remove + insert
+  for (const index of unmatchedNext) {
+    if (unmatchedPrev.has(index)) {
+      unmatchedPrev.delete(index)
+      unmatchedNext.delete(index)
+      operations.push({ type: 'update', index })
+    }
+  }
+
+  unmatchedPrev.forEach(index => operations.push({ type: 'remove', index }))
+  unmatchedNext.forEach(index => operations.push({ type: 'insert', index }))
+
+  const ordered = longestIncreasingSubsequence(matches.map(m => m.from))
+  for (let i = 0; i < matches.length; i++) {
+    const { from, to } = matches[i]
+    if (!ordered.has(i)) {
+      operations.push({ type: 'move', from, to })
+    }
+    if (key && !Object.is(prev[from], next[to])) {
+      const prevHash = hashItem(prev[from])
+      const nextHash = hashItem(next[to])
+      if (prevHash === undefined || nextHash === undefined) return undefined
+      if (prevHash !== nextHash) operations.push({ type: 'update', index: to })
+    }
+  }
+
+  return operations
+}
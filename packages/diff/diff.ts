@@ -1,10 +1,14 @@
 import { DiffChunk } from '../shared-types'
 import { distance } from 'fastest-levenshtein'
 import { getDiffType, getValueType } from './utils'
+import { diffArrays } from './array-diff'
+import { structuralHash } from './hash'
+import { safeStringify } from './normalize'
 
 type DiffableType =
   | string
   | number
+  | bigint
   | boolean
   | Record<string, unknown>
   | Array<unknown>
@@ -12,60 +16,327 @@ type DiffableType =
   | null
   | unknown
 
+/** Limits on how much work a single diff may do before falling back to estimates */
+export interface DiffBudget {
+  /** Maximum number of nested values visited when hashing or measuring an object */
+  maxNodes: number
+  /** Maximum text length (after trimming common prefix/suffix) compared exactly */
+  maxTextLength: number
+  /** Length of each chunk compared when sampling long texts */
+  sampleSize: number
+  /** Maximum number of chunks compared when sampling long texts */
+  maxSamples: number
+  /** Maximum array length for which per-item array operations are computed */
+  maxArrayItems: number
+}
+
+export const DEFAULT_DIFF_BUDGET: DiffBudget = {
+  maxNodes: 2000,
+  maxTextLength: 4096,
+  sampleSize: 64,
+  maxSamples: 256,
+  maxArrayItems: 2000,
+}
+
+type DiffResult = Pick<DiffChunk, 'diff' | 'diffPower' | 'estimated'>
+
+/**
+ * Edit distance between two texts. Common prefix and suffix are trimmed first, so
+ * small edits in long texts stay exact and cheap. If what remains is still longer than
+ * the budget, the distance is estimated by comparing evenly spaced chunks.
+ */
+const textDistance = (
+  a: string,
+  b: string,
+  budget: DiffBudget
+): { steps: number; estimated: boolean } => {
+  let start = 0
+  const minLength = Math.min(a.length, b.length)
+  while (start < minLength && a.charCodeAt(start) === b.charCodeAt(start)) start++
+
+  let end = 0
+  while (
+    end < minLength - start &&
+    a.charCodeAt(a.length - 1 - end) === b.charCodeAt(b.length - 1 - end)
+  ) {
+    end++
+  }
+
+  const midA = a.slice(start, a.length - end)
+  const midB = b.slice(start, b.length - end)
+
+  if (Math.max(midA.length, midB.length) <= budget.maxTextLength) {
+    return { steps: distance(midA, midB), estimated: false }
+  }
+
+  const { sampleSize, maxSamples } = budget
+  const chunkCount = Math.ceil(Math.max(midA.length, midB.length) / sampleSize)
+  const stride = Math.max(1, Math.floor(chunkCount / maxSamples))
+  let sampled = 0
+  let differing = 0
+  for (let i = 0; i < chunkCount; i += stride) {
+    const offset = i * sampleSize
+    sampled++
+    if (midA.substr(offset, sampleSize) !== midB.substr(offset, sampleSize)) differing++
+  }
+
+  const overlap = Math.min(midA.length, midB.length)
+  const lengthDelta = Math.abs(midA.length - midB.length)
+  return {
+    steps: Math.round((differing / Math.max(1, sampled)) * overlap) + lengthDelta,
+    estimated: true,
+  }
+}
+
+/**
+ * Estimate the edit size between two large objects by hashing their top-level entries
+ * and summing the size of the entries whose hashes differ.
+ */
+const estimateObjectSteps = (
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  budget: DiffBudget
+): number => {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)])
+  const perKeyNodes = Math.max(1, Math.floor(budget.maxNodes / Math.max(1, keys.size)))
+  let steps = 0
+
+  for (const key of keys) {
+    const a = prev[key]
+    const b = next[key]
+    if (Object.is(a, b)) continue
+    const hashA = structuralHash(a, perKeyNodes)
+    const hashB = structuralHash(b, perKeyNodes)
+    if (hashA.hash !== hashB.hash || !hashA.complete || !hashB.complete) {
+      steps += Math.max(hashA.size, hashB.size) + key.length
+    }
+  }
+
+  return steps
+}
+
+/**
+ * Compare Map entries by key, or Set members by content. Adding entries is an `add`,
+ * removing them a `remove`, and same-size changes a `change`; `diff` counts the entries
+ * that were added, removed or changed. Entries kept by reference are skipped, so the
+ * node budget is shared only by the entries that differ.
+ */
+const diffCollections = (
+  prev: Map<unknown, unknown> | Set<unknown>,
+  next: Map<unknown, unknown> | Set<unknown>,
+  budget: DiffBudget
+): DiffResult => {
+  // Entries of one collection that are not in the other by reference
+  const unmatched = (
+    collection: Map<unknown, unknown> | Set<unknown>,
+    other: Map<unknown, unknown> | Set<unknown>
+  ): [unknown, unknown][] => {
+    const result: [unknown, unknown][] = []
+    if (collection instanceof Map && other instanceof Map) {
+      collection.forEach((value, key) => {
+        if (!other.has(key) || !Object.is(other.get(key), value)) result.push([key, value])
+      })
+    } else {
+      collection.forEach(member => {
+        if (!other.has(member)) result.push([member, member])
+      })
+    }
+    return result
+  }
+
+  const prevUnmatched = unmatched(prev, next)
+  const nextUnmatched = unmatched(next, prev)
+  const perEntryNodes = Math.max(
+    1,
+    Math.floor(budget.maxNodes / Math.max(1, prevUnmatched.length + nextUnmatched.length))
+  )
+  let estimated = false
+
+  const toEntries = (entries: [unknown, unknown][]) => {
+    const result = new Map<unknown, number>()
+    for (const [key, value] of entries) {
+      const { hash, complete } = structuralHash(value, perEntryNodes)
+      if (!complete) estimated = true
+      // Sets have no keys: members are identified by their content. Map entries are
+      // matched by key the way the Map itself does, so object keys match by identity.
+      result.set(prev instanceof Set ? `member:${hash}` : key, hash)
+    }
+    return result
+  }
+
+  const prevEntries = toEntries(prevUnmatched)
+  const nextEntries = toEntries(nextUnmatched)
+  let changed = 0
+  for (const [key, hash] of nextEntries) {
+    const previous = prevEntries.get(key)
+    if (previous === undefined || previous !== hash) changed++
+  }
+  for (const key of prevEntries.keys()) {
+    if (!nextEntries.has(key)) changed++
+  }
+
+  return {
+    diff: String(changed),
+    diffPower: next.size - prev.size,
+    estimated,
+  }
+}
+
 const diffFunc = <T extends DiffableType>(
   nextState: T,
-  prevState: T
-): Pick<DiffChunk, 'diff' | 'diffPower'> => {
-  let _diff: string, _diffPower: number
-
+  prevState: T,
+  budget: DiffBudget
+): DiffResult => {
   if (prevState === undefined || prevState === null) {
-    _diff = JSON.stringify(nextState).length.toString()
-    _diffPower = 1
-  } else if (nextState === undefined || nextState === null) {
-    _diff = JSON.stringify(prevState).length.toString()
-    _diffPower = -1
-  } else {
-    const steps = distance(JSON.stringify(prevState), JSON.stringify(nextState))
-    _diff = steps.toString()
-
-    switch (typeof nextState) {
-      case 'number':
-        _diffPower = Number(nextState) - Number(prevState)
-        break
-      case 'boolean':
-        _diffPower = nextState === prevState ? 0 : nextState ? 1 : -1
-        break
-      case 'string':
-      case 'object':
-      case 'undefined':
-      default:
-        _diffPower =
-          1 -
-          steps / Math.max(1, JSON.stringify(prevState).length, JSON.stringify(nextState).length)
-        break
+    return {
+      diff: String(structuralHash(nextState, budget.maxNodes).size),
+      diffPower: 1,
+      estimated: false,
+    }
+  }
+  if (nextState === undefined || nextState === null) {
+    return {
+      diff: String(structuralHash(prevState, budget.maxNodes).size),
+      diffPower: -1,
+      estimated: false,
     }
   }
 
-  return {
-    diff: String(_diff),
-    diffPower: _diffPower,
+  switch (typeof nextState) {
+    case 'number':
+      return {
+        diff: String(distance(String(prevState), String(nextState))),
+        diffPower: Number(nextState) - Number(prevState),
+        estimated: false,
+      }
+    case 'boolean':
+      return {
+        diff: nextState === prevState ? '0' : '1',
+        diffPower: nextState === prevState ? 0 : nextState ? 1 : -1,
+        estimated: false,
+      }
+    case 'bigint':
+      if (typeof prevState === 'bigint') {
+        const delta = Number((nextState as bigint) - prevState)
+        return {
+          diff: String(distance(String(prevState), String(nextState))),
+          diffPower: Math.max(-Number.MAX_VALUE, Math.min(Number.MAX_VALUE, delta)),
+          estimated: false,
+        }
+      }
+      break
+    case 'string':
+      if (typeof prevState === 'string') {
+        const { steps, estimated } = textDistance(prevState, nextState as string, budget)
+        return {
+          diff: String(steps),
+          diffPower: 1 - steps / Math.max(1, prevState.length, (nextState as string).length),
+          estimated,
+        }
+      }
+      break
+  }
+
+  if (nextState instanceof Date && prevState instanceof Date) {
+    const deltaMs = nextState.getTime() - prevState.getTime()
+    return {
+      diff: String(Math.abs(deltaMs)),
+      // Seconds moved forward (> 0) or backward (< 0) in time
+      diffPower: isNaN(deltaMs) ? 0 : deltaMs / 1000,
+      estimated: false,
+    }
   }
+
+  if (
+    (nextState instanceof Map && prevState instanceof Map) ||
+    (nextState instanceof Set && prevState instanceof Set)
+  ) {
+    return diffCollections(prevState, nextState, budget)
+  }
+
+  const prevHash = structuralHash(prevState, budget.maxNodes)
+  const nextHash = structuralHash(nextState, budget.maxNodes)
+  const maxSize = Math.max(1, prevHash.size, nextHash.size)
+
+  const fitsBudget =
+    prevHash.complete &&
+    nextHash.complete &&
+    prevHash.size <= budget.maxTextLength &&
+    nextHash.size <= budget.maxTextLength
+
+  if (fitsBudget) {
+    const { steps, estimated } = textDistance(
+      safeStringify(prevState),
+      safeStringify(nextState),
+      budget
+    )
+    return { diff: String(steps), diffPower: 1 - steps / maxSize, estimated }
+  }
+
+  const bothObjects =
+    typeof prevState === 'object' &&
+    typeof nextState === 'object' &&
+    Array.isArray(prevState) === Array.isArray(nextState) &&
+    getValueType(prevState) === getValueType(nextState)
+
+  const steps = bothObjects
+    ? Math.min(
+        maxSize,
+        estimateObjectSteps(
+          prevState as Record<string, unknown>,
+          nextState as Record<string, unknown>,
+          budget
+        )
+      )
+    : maxSize
+
+  return { diff: String(steps), diffPower: 1 - steps / maxSize, estimated: true }
+}
+
+/** Options controlling how values are compared */
+export interface DiffOptions {
+  /** Field identifying object items in arrays, see `ArrayDiffOptions.key` */
+  arrayKey?: string
+  /** Work limits; values beyond them are compared by estimate, see `DiffChunk.estimated` */
+  budget?: Partial<DiffBudget>
 }
 
 export const diffImpl = <T extends DiffableType>(
   path: string,
   nextState: T,
-  prevState: T
+  prevState: T,
+  options: DiffOptions = {}
 ): DiffChunk => {
-  const { diff, diffPower } = diffFunc(prevState, nextState)
+  const budget: DiffBudget = { ...DEFAULT_DIFF_BUDGET, ...options.budget }
+  const { diff, diffPower, estimated } = diffFunc(nextState, prevState, budget)
+
+  const nextHash = structuralHash(nextState, budget.maxNodes)
+  const id =
+    nextHash.complete && nextHash.size <= budget.maxTextLength
+      ? safeStringify(nextState)
+      : `hash:${nextHash.hash.toString(16)}`
 
   const diffChunk: DiffChunk = {
-    id: JSON.stringify(nextState),
+    id,
     path,
     type: getDiffType(diffPower),
     valueType: getValueType(nextState),
     diff,
     diffPower,
+    estimated,
+  }
+
+  if (Array.isArray(nextState) && Array.isArray(prevState)) {
+    // Items share one node budget; past it, only the estimate above is reported
+    const arrayOperations =
+      Math.max(nextState.length, prevState.length) <= budget.maxArrayItems
+        ? diffArrays(prevState, nextState, { key: options.arrayKey, maxNodes: budget.maxNodes })
+        : undefined
+    if (arrayOperations) {
+      diffChunk.arrayOperations = arrayOperations
+    } else {
+      diffChunk.estimated = true
+    }
   }
 
   return diffChunk
@@ -75,6 +346,7 @@ export const isDiffable = (value: unknown): value is DiffableType => {
   return (
     typeof value === 'string' ||
     typeof value === 'number' ||
+    typeof value === 'bigint' ||
     typeof value === 'boolean' ||
     typeof value === 'object' ||
     Array.isArray(value)
@@ -0,0 +1,96 @@
+import { CIRCULAR_PLACEHOLDER, describeValue } from './normalize'
+
+/** Result of hashing a value's structure within a node budget */
+export interface StructuralHash {
+  /** 32-bit FNV-1a hash of the visited structure */
+  hash: number
+  /** Number of nodes (values) visited */
+  nodes: number
+  /** Approximate JSON length of the visited structure */
+  size: number
+  /** False when the node budget ran out before the whole value was visited */
+  complete: boolean
+}
+
+const FNV_OFFSET = 0x811c9dc5
+const FNV_PRIME = 0x01000193
+
+/** Stack frames: a value to visit, or a container whose remaining entries are visited next */
+type Frame =
+  | { value: unknown }
+  | { container: object; keyed: boolean; entries: Iterator<[string, unknown]> }
+
+const mix = (hash: number, text: string): number => {
+  let h = hash
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, FNV_PRIME)
+  }
+  // Separator so that ["ab"] and ["a", "b"] hash differently
+  h ^= 0xff
+  return Math.imul(h, FNV_PRIME) >>> 0
+}
+
+/**
+ * Hash a value by walking its structure, visiting at most `maxNodes` values.
+ * Equal values produce equal hashes, including Map, Set, Date, BigInt and typed arrays
+ * (see `describeValue`). References back to an ancestor are hashed as a placeholder.
+ * Unlike `JSON.stringify`, the cost is bounded by the budget and no string is built.
+ */
+export const structuralHash = (value: unknown, maxNodes: number): StructuralHash => {
+  let hash = FNV_OFFSET
+  let nodes = 0
+  let size = 0
+  const ancestors = new Set<object>()
+  const stack: Frame[] = [{ value }]
+
+  while (stack.length > 0) {
+    const frame = stack.pop() as Frame
+
+    if ('entries' in frame) {
+      const entry = frame.entries.next()
+      if (entry.done) {
+        ancestors.delete(frame.container)
+        continue
+      }
+      const [key, child] = entry.value
+      stack.push(frame, { value: child })
+      if (frame.keyed) {
+        hash = mix(hash, `:${key}`)
+        size += key.length + 3
+      }
+      continue
+    }
+
+    if (nodes >= maxNodes) {
+      return { hash, nodes, size, complete: false }
+    }
+    nodes++
+
+    const current = frame.value
+    if (typeof current === 'object' && current !== null && ancestors.has(current)) {
+      hash = mix(hash, CIRCULAR_PLACEHOLDER)
+      size += CIRCULAR_PLACEHOLDER.length
+      continue
+    }
+
+    const view = describeValue(current)
+    if (view.kind === 'leaf') {
+      hash = mix(hash, view.text)
+      size += view.text.length
+      continue
+    }
+
+    const { tag, size: entryCount, entries } = view
+    hash = mix(hash, `${tag}${entryCount}`)
+    size += 2 + Math.max(0, entryCount - 1)
+    ancestors.add(current as object)
+    stack.push({
+      container: current as object,
+      keyed: tag !== 'array' && tag !== 'set',
+      entries: entries[Symbol.iterator](),
+    })
+  }
+
+  return { hash, nodes, size, complete: true }
+}
@@ -1,6 +1,19 @@
-import { diffImpl, isDiffable } from './diff'
+import { diffImpl, isDiffable, DiffOptions, DiffBudget, DEFAULT_DIFF_BUDGET } from './diff'
+import { diffArrays, ArrayDiffOptions } from './array-diff'
+import { normalizeValue, safeStringify } from './normalize'
+import { structuralHash, StructuralHash } from './hash'
+import { getValueType } from './utils'
 
 const diff = diffImpl
 
 export default diff
-export { isDiffable }
+export {
+  isDiffable,
+  diffArrays,
+  normalizeValue,
+  safeStringify,
+  structuralHash,
+  getValueType,
+  DEFAULT_DIFF_BUDGET,
+}
+export type { DiffOptions, DiffBudget, ArrayDiffOptions, StructuralHash }
@@ -0,0 +1,145 @@
+/**
+ * Value normalization for diffing.
+ *
+ * `JSON.stringify` throws on BigInt and circular structures and turns Map and Set into
+ * `{}`. Everything in the diff package that needs to look inside a value goes through
+ * `describeValue` instead, and everything that needs text goes through `safeStringify`.
+ */
+
+/** Placeholder used where a value refers back to one of its own ancestors */
+export const CIRCULAR_PLACEHOLDER = '[Circular]'
+
+/** A value that has no children to walk, with its canonical text */
+export interface LeafView {
+  kind: 'leaf'
+  text: string
+}
+
+/** A value with children, as an ordered list of [key, child] entries */
+export interface ContainerView {
+  kind: 'container'
+  tag: 'object' | 'array' | 'map' | 'set'
+  /** Number of entries */
+  size: number
+  /** Entries in order, produced on demand so that a budgeted walk stops early */
+  entries: Iterable<[string, unknown]>
+}
+
+export type ValueView = LeafView | ContainerView
+
+const isTypedArray = (value: object): value is ArrayLike<number | bigint> =>
+  ArrayBuffer.isView(value) && !(value instanceof DataView)
+
+const dateToString = (date: Date): string =>
+  `Date(${isNaN(date.getTime()) ? 'Invalid' : date.toISOString()})`
+
+/** Canonical text of a Map key */
+export const keyToString = (key: unknown): string =>
+  typeof key === 'object' && key !== null ? safeStringify(key) : `${typeof key}:${String(key)}`
+
+/** Describe a value as either a leaf with canonical text, or a container with entries */
+export const describeValue = (value: unknown): ValueView => {
+  switch (typeof value) {
+    case 'bigint':
+      return { kind: 'leaf', text: `${value}n` }
+    case 'string':
+      return { kind: 'leaf', text: JSON.stringify(value) }
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return { kind: 'leaf', text: `${typeof value}` }
+    case 'object':
+      break
+    default:
+      return { kind: 'leaf', text: String(value) }
+  }
+
+  if (value === null) return { kind: 'leaf', text: 'null' }
+
+  if (value instanceof Date) {
+    return { kind: 'leaf', text: dateToString(value) }
+  }
+  if (value instanceof Map) {
+    return { kind: 'container', tag: 'map', size: value.size, entries: mapEntries(value) }
+  }
+  if (value instanceof Set) {
+    return { kind: 'container', tag: 'set', size: value.size, entries: setEntries(value) }
+  }
+  if (Array.isArray(value) || isTypedArray(value)) {
+    const items = value as ArrayLike<unknown>
+    return { kind: 'container', tag: 'array', size: items.length, entries: arrayEntries(items) }
+  }
+
+  const keys = Object.keys(value)
+  return {
+    kind: 'container',
+    tag: 'object',
+    size: keys.length,
+    entries: objectEntries(value as Record<string, unknown>, keys),
+  }
+}
+
+function* mapEntries(map: Map<unknown, unknown>): Generator<[string, unknown]> {
+  for (const [key, value] of map) yield [keyToString(key), value]
+}
+
+function* setEntries(set: Set<unknown>): Generator<[string, unknown]> {
+  let index = 0
+  for (const value of set) yield [String(index++), value]
+}
+
+function* arrayEntries(items: ArrayLike<unknown>): Generator<[string, unknown]> {
+  for (let i = 0; i < items.length; i++) yield [String(i), items[i]]
+}
+
+function* objectEntries(
+  record: Record<string, unknown>,
+  keys: string[]
+): Generator<[string, unknown]> {
+  for (const key of keys) yield [key, record[key]]
+}
+
+/**
+ * Convert a value into a JSON-safe structure: Map becomes `{ __map: [[key, value]] }`,
+ * Set becomes `{ __set: [...] }`, Date a `Date(<ISO string>)` string, BigInt a string with an `n`
+ * suffix, typed arrays plain arrays, and references back to an ancestor
+ * `CIRCULAR_PLACEHOLDER`.
+ */
+export const normalizeValue = (value: unknown, ancestors: Set<object> = new Set()): unknown => {
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value !== 'object' || value === null) return value
+  if (value instanceof Date) return dateToString(value)
+  if (ancestors.has(value)) return CIRCULAR_PLACEHOLDER
+
+  ancestors.add(value)
+  let result: unknown
+  if (value instanceof Map) {
+    result = {
+      __map: [...value].map(([k, v]) => [
+        normalizeValue(k, ancestors),
+        normalizeValue(v, ancestors),
+      ]),
+    }
+  } else if (value instanceof Set) {
+    result = { __set: [...value].map(v => normalizeValue(v, ancestors)) }
+  } else if (Array.isArray(value) || isTypedArray(value)) {
+    result = Array.from(value as ArrayLike<unknown>, v => normalizeValue(v, ancestors))
+  } else {
+    const out: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      out[key] = normalizeValue((value as Record<string, unknown>)[key], ancestors)
+    }
+    result = out
+  }
+  ancestors.delete(value)
+  return result
+}
+
+/** `JSON.stringify` that never throws, using `normalizeValue` for unsupported types */
+export const safeStringify = (value: unknown): string => {
+  try {
+    return String(JSON.stringify(normalizeValue(value)))
+  } catch {
+    return String(value)
+  }
+}
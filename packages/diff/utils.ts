@@ -21,10 +21,15 @@ export const getValueType = (value: unknown): ValueOf<Pick<DiffChunk, 'valueType
       return 'number'
     case 'boolean':
       return 'boolean'
+    case 'bigint':
+      return 'bigint'
     case 'object':
-      if (Array.isArray(value)) {
+      if (Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView))) {
         return 'array'
       }
+      if (value instanceof Map) return 'map'
+      if (value instanceof Set) return 'set'
+      if (value instanceof Date) return 'date'
       return value === null ? 'unknown' : 'object'
     default:
       return 'unknown'
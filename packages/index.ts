@@ -2,3 +2,15 @@ export * from './shared-types/index'
 export * from './middleware/index'
 export * from './visualizer/index'
 export * from './core/index'
+export {
+  configureSoundBudget,
+  getSoundBudgetStats,
+  resetSoundBudgetStats,
+} from './sonification/index'
+export type {
+  SoundBudgetConfig,
+  SoundBudgetPolicy,
+  SoundBudgetStats,
+  TokenBucketConfig,
+  CoalesceConfig,
+} from './sonification/index'
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { captureCallSite } from '../utils'
+
+describe('captureCallSite', () => {
+  // Anonymous on purpose: minified builds have no meaningful function names
+  const wrapper = [() => captureCallSite(wrapper)][0]
+
+  it('returns the frame that called the wrapper', () => {
+    const callSite = (function callerOfSet() {
+      return wrapper()
+    })()
+    expect(callSite).toMatch(/^callerOfSet .*call-site\.test\.ts:\d+:\d+\)$/)
+  })
+})
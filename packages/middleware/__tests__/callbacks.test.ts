@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import { createStore } from 'zustand/vanilla'
+import type { SonicChunk } from '../../shared-types'
+import { SoundRateLimiter } from '../../sonification/rate-limiter'
+import { zusound, ZusoundOptions } from '../zusound'
+
+interface State {
+  count: number
+  max: number
+}
+
+const countWithinMax = {
+  name: 'count <= max',
+  check: (state: State) => state.count <= state.max,
+}
+
+/** Store with zusound and the count invariant, so one update yields a diff, an anomaly and sounds */
+function setup(options: ZusoundOptions<State> = {}) {
+  return createStore<State>()(
+    zusound(() => ({ count: 0, max: 2 }), {
+      enabled: true,
+      coalesce: { enabled: false },
+      invariants: [countWithinMax],
+      ...options,
+    })
+  )
+}
+
+describe('zusound callbacks', () => {
+  let submit: MockInstance<SoundRateLimiter['submit']>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    submit = vi.spyOn(SoundRateLimiter.getInstance(), 'submit').mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  /** Ids of the sonic chunks that reached playback */
+  const played = () => {
+    vi.runAllTimers()
+    return submit.mock.calls.map(([chunk]) => chunk.id)
+  }
+
+  it('passes the store name, action name and call site to every callback', () => {
+    const onDiff = vi.fn()
+    const onAnomaly = vi.fn()
+    const onResolved = vi.fn()
+    const onSonic = vi.fn()
+    const store = setup({
+      name: 'counter',
+      actions: { captureCallSite: true },
+      onDiff,
+      onAnomaly,
+      onResolved,
+      onSonic,
+    })
+
+    ;(function overflowCount() {
+      store.setState({ count: 3 }, false, 'overflow')
+    })()
+    store.setState({ count: 1 }, false, 'reset')
+
+    const context = {
+      storeName: 'counter',
+      actionName: 'overflow',
+      callSite: expect.stringMatching(/^overflowCount .*callbacks\.test\.ts:\d+:\d+\)$/),
+    }
+    expect(onDiff).toHaveBeenNthCalledWith(1, expect.objectContaining({ path: 'count' }), context)
+    expect(onAnomaly).toHaveBeenCalledWith(expect.objectContaining({ type: 'invariant' }), context)
+    expect(onSonic).toHaveBeenCalledWith(expect.objectContaining({ isAnomaly: true }), context)
+    expect(onResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'resolved' }),
+      expect.objectContaining({ storeName: 'counter', actionName: 'reset' })
+    )
+  })
+
+  it('leaves the store name and action name undefined when there are none', () => {
+    const onDiff = vi.fn()
+    setup({ onDiff }).setState({ count: 1 })
+    expect(onDiff).toHaveBeenCalledWith(expect.anything(), {
+      storeName: undefined,
+      actionName: undefined,
+      callSite: undefined,
+    })
+  })
+
+  it('plays the sounds when callbacks return nothing or true', () => {
+    const store = setup({ onDiff: () => true, onAnomaly: () => {}, onSonic: () => true })
+    store.setState({ count: 3 })
+    expect(played()).toHaveLength(2)
+  })
+
+  it('suppresses the change sound when onDiff returns false', () => {
+    const onSonic = vi.fn()
+    const store = setup({ onDiff: () => false, onSonic })
+    store.setState({ count: 1 })
+    expect(onSonic).not.toHaveBeenCalled()
+    expect(played()).toEqual([])
+  })
+
+  it('suppresses the alert sound when onAnomaly returns false', () => {
+    const onAnomaly = vi.fn(() => false)
+    const store = setup({ onDiff: () => false, onAnomaly })
+    store.setState({ count: 3 })
+    expect(onAnomaly).toHaveBeenCalledTimes(1)
+    expect(played()).toEqual([])
+  })
+
+  it('suppresses the restore sound when onResolved returns false', () => {
+    const onResolved = vi.fn(() => false)
+    const store = setup({ onDiff: () => false, onAnomaly: () => false, onResolved })
+    store.setState({ count: 3 })
+    store.setState({ count: 1 })
+    expect(onResolved).toHaveBeenCalledTimes(1)
+    expect(played()).toEqual([])
+  })
+
+  it('suppresses only the sounds for which onSonic returns false', () => {
+    const onSonic = vi.fn((chunk: SonicChunk) => !chunk.isAnomaly)
+    const store = setup({ onSonic })
+    store.setState({ count: 3 })
+    expect(onSonic).toHaveBeenCalledTimes(2)
+    expect(played()).toEqual([expect.not.stringMatching(/invariant/)])
+  })
+
+  it('treats a callback that throws as not suppressing the sound', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = setup({
+      invariants: [],
+      onDiff: () => {
+        throw new Error('boom')
+      },
+    })
+    store.setState({ count: 1 })
+    expect(console.error).toHaveBeenCalledWith('zusound callback failed:', expect.any(Error))
+    expect(played()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createStore } from 'zustand/vanilla'
+import { persist } from 'zustand/middleware'
+import { recording } from '../../core/__tests__/helpers'
+import { zusound, ZusoundOptions } from '../zusound'
+
+interface State {
+  count: number
+  items: number[]
+}
+
+/** Store with zusound, recording its chunks; `onSonic` tells whether a sound was let through */
+function setup(options: ZusoundOptions<State> = {}) {
+  const onSonic = vi.fn(() => false)
+  const recorded = recording<State>({ enabled: true, onSonic, ...options }, { diffSounds: true })
+  const store = createStore<State>()(zusound(() => ({ count: 0, items: [1] }), recorded.options))
+  return {
+    store,
+    controller: store.zusound,
+    diffs: recorded.diffs,
+    anomalies: recorded.anomalies,
+    onSonic,
+  }
+}
+
+describe('ZusoundController', () => {
+  it('keeps diffing while muted, without sounds', () => {
+    const { store, controller, diffs, onSonic } = setup()
+    controller.mute()
+    store.setState({ count: 1 })
+    expect(controller.isMuted).toBe(true)
+    expect(diffs).toHaveLength(1)
+    expect(onSonic).not.toHaveBeenCalled()
+
+    controller.unmute()
+    store.setState({ count: 2 })
+    expect(diffs).toHaveLength(2)
+    expect(onSonic).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores changes while paused', () => {
+    const { store, controller, diffs } = setup()
+    controller.pause()
+    store.setState({ count: 1 })
+    expect(controller.isPaused).toBe(true)
+    expect(diffs).toEqual([])
+
+    controller.resume()
+    store.setState({ count: 2 })
+    expect(diffs.map(chunk => chunk.path)).toEqual(['count'])
+  })
+
+  it('snapshots the state again on resume, so paused mutations are not reported', () => {
+    const mutate = (pause: boolean) => {
+      const { store, controller, anomalies } = setup({ anomalyDetection: { mutation: {} } })
+      if (pause) controller.pause()
+      store.getState().items.push(2)
+      store.setState({ count: 1 })
+      controller.resume()
+      store.setState({ count: 2 })
+      return anomalies.filter(anomaly => anomaly.type === 'mutation')
+    }
+
+    expect(mutate(false)).toEqual([expect.objectContaining({ path: 'items' })])
+    expect(mutate(true)).toEqual([])
+  })
+
+  it('applies new options from the next change', () => {
+    const { store, controller, diffs } = setup()
+    controller.setOptions({ name: 'cart', include: ['items'] })
+    expect(controller.getOptions()).toMatchObject({ name: 'cart', include: ['items'] })
+
+    store.setState({ count: 1, items: [2] })
+    expect(diffs).toEqual([expect.objectContaining({ path: 'items', storeName: 'cart' })])
+  })
+
+  it('stops for good on detach and drops open incidents', () => {
+    const { store, controller, diffs } = setup({
+      anomalyDetection: { rapidChange: { count: 2, windowMs: 1000 } },
+    })
+    store.setState({ count: 1 })
+    store.setState({ count: 2 })
+    expect(controller.getStats().openIncidents).toBe(1)
+
+    controller.detach()
+    store.setState({ count: 3 })
+    expect(controller.isAttached).toBe(false)
+    expect(controller.getStats().openIncidents).toBe(0)
+    expect(diffs).toHaveLength(2)
+  })
+
+  it('counts redundant updates per path and action', () => {
+    const { store, controller } = setup({
+      anomalyDetection: { redundantUpdate: { notify: 'none' } },
+    })
+    store.setState({ items: [...store.getState().items] }, false, 'copyItems')
+    store.setState({ count: 0 })
+    expect(controller.getStats().redundantUpdates).toEqual({
+      total: 2,
+      byPath: { items: 1, '*': 1 },
+      byAction: { copyItems: 1, anonymous: 1 },
+    })
+  })
+
+  it('ignores state set before the store holds one', () => {
+    const { diffs, options } = recording<State>({ enabled: true })
+    localStorage.setItem('hydrated', JSON.stringify({ state: { count: 5 }, version: 0 }))
+    const store = createStore<State>()(
+      persist(
+        zusound(() => ({ count: 0, items: [] }), options),
+        { name: 'hydrated' }
+      )
+    )
+    expect(store.getState().count).toBe(5)
+    expect(diffs).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it } from 'vitest'
+import { createStore } from 'zustand/vanilla'
+import { zusound } from '../zusound'
+
+/** Ten fields of every kind a path can end on */
+interface Row {
+  id: number
+  title: string
+  done: boolean
+  createdAt: Date
+  tags: string[]
+  owner: string | null
+  score: number
+  note?: string
+  meta: Record<string, string>
+  ids: number[]
+}
+
+/** Six fields per level, four levels deep, with arrays of rows at every level */
+interface Level3 {
+  a: number
+  b: string
+  c: boolean
+  rows: Row[]
+  d: Row
+  e: number[]
+}
+interface Level2 {
+  a: Level3
+  b: Level3
+  c: Level3
+  rows: Row[]
+  d: Row
+  e: string
+}
+interface Level1 {
+  a: Level2
+  b: Level2
+  c: Level2
+  rows: Row[]
+  d: Row
+  e: boolean
+}
+interface DeepState {
+  a: Level1
+  b: Level1
+  c: Level1
+  rows: Row[]
+  d: Row
+  e: number
+  inc: () => void
+}
+
+// Compile-cost fixture: checking the paths of a wide, deeply nested store must stay cheap.
+// Listing every pattern of this state used to take tsc minutes, or exceed its union limit.
+describe('path patterns of a deeply nested store', () => {
+  const initializer = () => ({}) as DeepState
+
+  it('accepts paths and patterns of the state', () => {
+    createStore<DeepState>()(
+      zusound(initializer, {
+        include: ['a.b.c.rows.3.title', 'a.b.c.rows.*.done', 'c.*.a.e', '**.title'],
+        exclude: ['!a.**', 'b.a.d.meta.locale', 'a.b.c.d.ids.0'],
+        watchPaths: [{ path: 'c.c.c.rows.*.owner', alertLevel: 'critical', to: null }],
+      })
+    )
+  })
+
+  it('rejects paths that do not exist', () => {
+    // @ts-expect-error not a path of the state
+    createStore<DeepState>()(zusound(initializer, { include: ['a.b.c.rows.*.dnoe'] }))
+    // @ts-expect-error actions are not paths
+    createStore<DeepState>()(zusound(initializer, { exclude: ['inc'] }))
+    // @ts-expect-error rows are not nested further
+    createStore<DeepState>()(zusound(initializer, { include: ['d.title.length'] }))
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import { createStore } from 'zustand/vanilla'
+import { devtools, persist } from 'zustand/middleware'
+import { immer } from 'zustand/middleware/immer'
+import type { ZusoundController } from '../controller'
+import { zusound, ZusoundOptions } from '../zusound'
+
+interface State {
+  count: number
+  user: { name: string; tags: string[] } | null
+  inc: () => void
+}
+
+const initialState = { count: 0, user: null }
+
+describe('zusound types', () => {
+  it('composes with devtools, persist and immer in any order', () => {
+    const inner = createStore<State>()(
+      devtools(
+        persist(
+          zusound(
+            immer(set => ({
+              ...initialState,
+              inc: () =>
+                set(
+                  state => {
+                    state.count += 1
+                  },
+                  false,
+                  'inc'
+                ),
+            }))
+          ),
+          { name: 'inner' }
+        )
+      )
+    )
+    const outer = createStore<State>()(
+      zusound(
+        devtools(
+          persist(
+            immer(set => ({
+              ...initialState,
+              inc: () =>
+                set(state => {
+                  state.count += 1
+                }),
+            })),
+            { name: 'outer' }
+          )
+        )
+      )
+    )
+
+    expectTypeOf(inner.zusound).toEqualTypeOf<ZusoundController<State>>()
+    expectTypeOf(outer.zusound).toEqualTypeOf<ZusoundController<State>>()
+    expectTypeOf(inner.persist.rehydrate).toBeFunction()
+    expectTypeOf(outer.persist.rehydrate).toBeFunction()
+    inner.setState(state => {
+      state.count = 1
+    })
+    outer.setState({ count: 1 }, false, { type: 'reset' })
+  })
+
+  it('types set with an action name', () => {
+    const store = createStore<State>()(
+      zusound(set => ({ ...initialState, inc: () => set({ count: 1 }, false, 'inc') }))
+    )
+    store.setState({ count: 1 }, false, 'inc')
+    // @ts-expect-error action names are strings or { type } objects
+    store.setState({ count: 1 }, false, 42)
+    // @ts-expect-error replacing needs the whole state
+    store.setState({ count: 1 }, true)
+  })
+
+  it('requires the curried form of create', () => {
+    // @ts-expect-error the zusound mutator needs create<State>()(...)
+    createStore<State>(zusound(() => ({ ...initialState, inc: () => {} })))
+  })
+
+  it('accepts only paths of the state', () => {
+    const initializer = () => ({ ...initialState, inc: () => {} })
+
+    createStore<State>()(
+      zusound(initializer, {
+        include: ['count', 'user.name', 'user.tags.*', '!user.**'],
+        exclude: ['**.tags'],
+        watchPaths: [{ path: 'user.name', alertLevel: 'warning' }],
+      })
+    )
+    // @ts-expect-error not a path of the state
+    createStore<State>()(zusound(initializer, { include: ['counter'] }))
+    // @ts-expect-error actions are not paths
+    createStore<State>()(zusound(initializer, { exclude: ['inc'] }))
+    createStore<State>()(
+      // @ts-expect-error not a path of the state
+      zusound(initializer, { watchPaths: [{ path: 'user.email', alertLevel: 'warning' }] })
+    )
+    // @ts-expect-error not a path of the state
+    createStore<State>()(zusound(initializer, { include: ['count', 'user.tags.*.name'] }))
+
+    const store = createStore<State>()(zusound(initializer))
+    store.zusound.setOptions({ include: ['user.tags'] })
+    // @ts-expect-error not a path of the state
+    store.zusound.setOptions({ include: ['user.email'] })
+  })
+
+  it('suggests the paths of the state', () => {
+    type Include = NonNullable<ZusoundOptions<State>['include']>[number]
+    expectTypeOf<Extract<Include, 'user.name'>>().toEqualTypeOf<'user.name'>()
+    expectTypeOf<Extract<Include, 'user.tags'>>().toEqualTypeOf<'user.tags'>()
+    expectTypeOf<Extract<Include, 'inc'>>().toBeNever()
+    expectTypeOf<'user.tags.*'>().toMatchTypeOf<Include>()
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createStore } from 'zustand/vanilla'
+import { devtools, persist } from 'zustand/middleware'
+import { immer } from 'zustand/middleware/immer'
+import { recording } from '../../core/__tests__/helpers'
+import { ZusoundController } from '../controller'
+import { getZusound, zusound, ZusoundOptions } from '../zusound'
+
+interface State {
+  count: number
+  inc: () => void
+}
+
+describe('zusound', () => {
+  it('reports the action name passed to set', () => {
+    const { diffs, options } = recording<State>({ enabled: true })
+    const store = createStore<State>()(
+      zusound(
+        set => ({ count: 0, inc: () => set(state => ({ count: state.count + 1 }), false, 'inc') }),
+        options
+      )
+    )
+    store.getState().inc()
+    store.setState({ count: 5 }, false, { type: 'reset', by: 'test' })
+    store.setState({ count: 6 })
+    expect(diffs.map(chunk => chunk.actionName)).toEqual(['inc', 'reset', undefined])
+  })
+
+  it('reports where set was called from when asked to', () => {
+    const { diffs, options } = recording<State>({
+      enabled: true,
+      actions: { captureCallSite: true },
+    })
+    const store = createStore<State>()(zusound(() => ({ count: 0, inc: () => {} }), options))
+    ;(function resetCount() {
+      store.setState({ count: 1 })
+    })()
+    expect(diffs[0].callSite).toMatch(/^resetCount .*zusound\.test\.ts:\d+:\d+\)$/)
+  })
+
+  it('exposes its controller on the store', () => {
+    const store = createStore<State>()(zusound(() => ({ count: 0, inc: () => {} })))
+    expect(store.zusound).toBeInstanceOf(ZusoundController)
+    expect(getZusound(store)).toBe(store.zusound)
+    expect(getZusound(createStore(() => ({ count: 0 })))).toBeUndefined()
+  })
+
+  it.each([
+    ['inside', true],
+    ['outside', false],
+  ])('works with devtools, persist and immer %s it', (_, outermost) => {
+    const { diffs, options } = recording<State>({ enabled: true })
+    const initializer = immer<State>(set => ({
+      count: 0,
+      inc: () =>
+        set(state => {
+          state.count += 1
+        }),
+    }))
+    const store = outermost
+      ? createStore<State>()(
+          zusound(
+            devtools(persist(initializer, { name: 'counter-a' }), { enabled: false }),
+            options
+          )
+        )
+      : createStore<State>()(
+          devtools(persist(zusound(initializer, options), { name: 'counter-b' }), {
+            enabled: false,
+          })
+        )
+
+    store.getState().inc()
+    store.setState({ count: 3 }, false, 'set')
+    expect(diffs.map(chunk => [chunk.path, chunk.actionName])).toEqual([
+      ['count', undefined],
+      ['count', 'set'],
+    ])
+    expect(getZusound(store)?.isAttached).toBe(true)
+  })
+
+  it('reports the action name through an active devtools', () => {
+    const send = vi.fn()
+    vi.stubGlobal('__REDUX_DEVTOOLS_EXTENSION__', {
+      connect: () => ({ init: vi.fn(), send, subscribe: vi.fn() }),
+    })
+    try {
+      const { diffs, options } = recording<State>({ enabled: true })
+      const store = createStore<State>()(
+        zusound(
+          devtools(
+            set => ({
+              count: 0,
+              inc: () => set(state => ({ count: state.count + 1 }), false, 'inc'),
+            }),
+            { enabled: true }
+          ),
+          options
+        )
+      )
+      store.getState().inc()
+      store.setState({ count: 5 }, false, 'ext')
+      expect(send.mock.calls.map(([action]) => action.type)).toEqual(['inc', 'ext'])
+      expect(diffs.map(chunk => chunk.actionName)).toEqual(['inc', 'ext'])
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('keeps set working when processing a change fails', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = createStore<State>()(
+      zusound(() => ({ count: 0, inc: () => {} }), { enabled: true })
+    )
+    const unreadable = {
+      get value(): number {
+        throw new Error('unreadable')
+      },
+    }
+    expect(() => store.setState({ count: unreadable as unknown as number })).not.toThrow()
+    expect(error).toHaveBeenCalledWith('zusound failed to process an update:', expect.any(Error))
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,134 @@
+import type { StoreApi } from 'zustand/vanilla'
+import coreImpl, { CoreInstance, CoreOptions, RedundantUpdateStats, snapshotState } from '../core'
+import { getSoundBudgetStats, SoundBudgetStats } from '../sonification'
+
+/** Counters describing what zusound did for one store */
+export interface ZusoundStats {
+  /** Redundant updates seen so far, when redundant update detection is enabled */
+  redundantUpdates: RedundantUpdateStats
+  /** Anomaly incidents that are not resolved yet */
+  openIncidents: number
+  /** Names of the invariants that are currently violated */
+  violatedInvariants: string[]
+  /** Played and limited sounds; the sound budget is shared by every store on the page */
+  soundBudget: SoundBudgetStats
+}
+
+/**
+ * Runtime handle of the zusound middleware on one store, available as `store.zusound`
+ * or through `getZusound(store)`.
+ */
+export class ZusoundController<T> {
+  private options: CoreOptions<T>
+  private paused = false
+  private api: StoreApi<T> | null = null
+  private unsubscribe: (() => void) | null = null
+
+  constructor(
+    private readonly instance: CoreInstance,
+    options: CoreOptions<T>
+  ) {
+    this.options = options
+  }
+
+  /**
+   * Start sonifying the changes of `api`. Called by the middleware, which passes the
+   * initial state because the store only holds it once the middleware has returned.
+   */
+  public attach(api: StoreApi<T>, state: T = api.getState()): void {
+    if (this.unsubscribe) return
+    this.api = api
+    this.unsubscribe = api.subscribe((state, prevState) => {
+      // Outer middlewares may set state before the store holds one, e.g. persist hydrating
+      if (this.paused || prevState === undefined) return
+      // Paths typed against T are plain strings to the core
+      coreImpl(state, prevState, this.options as CoreOptions, this.instance)
+    })
+    this.snapshot(state)
+  }
+
+  /** Stop listening to the store for good and drop open incidents without resolving them */
+  public detach(): void {
+    if (!this.unsubscribe) return
+    this.unsubscribe()
+    this.unsubscribe = null
+    this.api = null
+    this.instance.incidents.clear()
+    this.instance.mutationSnapshot = undefined
+  }
+
+  /** Whether the store's changes are still being listened to */
+  public get isAttached(): boolean {
+    return this.unsubscribe !== null
+  }
+
+  /** Silence the store. Changes are still diffed and events and callbacks still fire. */
+  public mute(): void {
+    this.instance.muted = true
+  }
+
+  public unmute(): void {
+    this.instance.muted = false
+  }
+
+  public get isMuted(): boolean {
+    return !!this.instance.muted
+  }
+
+  /** Ignore the store's changes entirely until `resume` is called */
+  public pause(): void {
+    this.paused = true
+  }
+
+  public resume(): void {
+    if (!this.paused) return
+    this.paused = false
+    // Changes made while paused were not snapshotted and would look like mutations
+    this.snapshot()
+  }
+
+  public get isPaused(): boolean {
+    return this.paused
+  }
+
+  /** Current options, as passed to the middleware and updated by `setOptions` */
+  public getOptions(): Readonly<CoreOptions<T>> {
+    return this.options
+  }
+
+  /**
+   * Merge options into the current ones; they apply from the next change.
+   * Fields are replaced as a whole, e.g. passing `anomalyDetection` replaces all its rules.
+   */
+  public setOptions<const P extends string = string>(options: Partial<CoreOptions<T, P>>): void {
+    this.options = { ...this.options, ...options }
+    if ('name' in options) {
+      this.instance.storeName = options.name
+    }
+    // The considered paths may have changed
+    this.snapshot()
+  }
+
+  /** Restart mutation detection from the given or the store's current state */
+  private snapshot(state = this.api?.getState()): void {
+    this.instance.mutationSnapshot = undefined
+    if (state !== undefined) {
+      snapshotState(state, this.options as CoreOptions, this.instance)
+    }
+  }
+
+  /** Snapshot of the store's counters */
+  public getStats(): ZusoundStats {
+    const { redundantUpdates, incidents, violatedInvariants } = this.instance
+    return {
+      redundantUpdates: {
+        total: redundantUpdates.total,
+        byPath: { ...redundantUpdates.byPath },
+        byAction: { ...redundantUpdates.byAction },
+      },
+      openIncidents: incidents.openCount,
+      violatedInvariants: [...violatedInvariants.keys()],
+      soundBudget: getSoundBudgetStats(),
+    }
+  }
+}
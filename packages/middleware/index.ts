@@ -1,4 +1,7 @@
-import { zusound } from './zusound'
+import { zusound, getZusound } from './zusound'
+import type { ZusoundOptions, ZusoundAction } from './zusound'
+import { ZusoundController } from './controller'
+import type { ZusoundStats } from './controller'
 
 declare global {
   interface ImportMeta {
@@ -9,4 +12,5 @@ declare global {
   }
 }
 
-export { zusound }
+export { zusound, getZusound, ZusoundController }
+export type { ZusoundOptions, ZusoundAction, ZusoundStats }
@@ -12,3 +12,41 @@ const getIsProduction = (): boolean => {
 }
 
 export const isProduction = getIsProduction()
+
+/**
+ * Resolve the action name passed as the third `set` argument.
+ * Accepts both the plain string form and the devtools `{ type }` form.
+ */
+export const getActionName = (action: unknown): string | undefined => {
+  if (typeof action === 'string') return action
+  if (action && typeof action === 'object' && 'type' in action) {
+    const { type } = action as { type: unknown }
+    return typeof type === 'string' ? type : undefined
+  }
+  return undefined
+}
+
+/** Frames above the caller in a plain `new Error().stack`: captureCallSite and the wrapper */
+const WRAPPER_FRAME_OFFSET = 2
+
+/**
+ * Capture the code that called `set`: the first frame outside node_modules below
+ * `wrapper`, the function wrapping `set`. V8 cuts the stack at `wrapper` itself, so
+ * this works in minified builds; other engines skip a fixed number of frames.
+ * Returns undefined when the stack is unavailable.
+ */
+export const captureCallSite = (wrapper: (...args: never[]) => unknown): string | undefined => {
+  let frames: string[]
+  if (typeof Error.captureStackTrace === 'function') {
+    const holder: { stack?: string } = {}
+    Error.captureStackTrace(holder, wrapper)
+    // Skip the message line
+    frames = holder.stack?.split('\n').slice(1) ?? []
+  } else {
+    // Firefox and Safari stacks have no message line
+    frames = new Error().stack?.split('\n').slice(WRAPPER_FRAME_OFFSET) ?? []
+  }
+
+  const frame = frames.find(line => line.trim() && !line.includes('node_modules'))
+  return frame?.trim().replace(/^at /, '')
+}
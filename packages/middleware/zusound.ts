@@ -1,28 +1,165 @@
-// TODO:: update interface for zustand middlewares
-/* eslint-disable @typescript-eslint/no-explicit-any */
-/* @ts-nocheck */
-import type { StateCreator } from 'zustand/vanilla'
-import coreImpl, { CoreOptions } from '../core'
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand/vanilla'
+import { CoreOptions, createCoreInstance } from '../core'
 import { DIFF_CHUNK_EVENT_NAME } from '../shared-types'
-import { isProduction } from './utils'
+import { ZusoundController } from './controller'
+import { captureCallSite, getActionName, isProduction } from './utils'
 
-type AnyStateCreator<T, U extends any[], V extends any[]> = StateCreator<T, U, V, T>
+declare module 'zustand/vanilla' {
+  // Declaration merging requires the same type parameters, even unused ones
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    zusound: WithZusound<S>
+  }
+}
+
+declare global {
+  interface Window {
+    /** Set once the diff event listener has been attached */
+    [DIFF_CHUNK_EVENT_NAME]?: boolean
+  }
+}
+
+/**
+ * Action passed as the third `set` argument, reported as `actionName`.
+ * Same shape as the devtools action, so both middlewares accept the same calls.
+ */
+export type ZusoundAction = string | { type: string; [x: string | number | symbol]: unknown }
+
+type Cast<T, U> = T extends U ? T : U
+type Write<T, U> = Omit<T, keyof U> & U
+
+/** The `(partial, replace)` parameters of a `setState` overload, without any extras */
+type TakeTwo<T> = T extends { length: 0 }
+  ? [undefined, undefined]
+  : T extends { length: 1 }
+    ? [...a0: Cast<T, unknown[]>, a1: undefined]
+    : T extends { length: 0 | 1 }
+      ? [...a0: Cast<T, unknown[]>, a1: undefined]
+      : T extends { length: 2 }
+        ? T
+        : T extends { length: 1 | 2 }
+          ? T
+          : T extends { length: 0 | 1 | 2 }
+            ? T
+            : T extends [infer A0, infer A1, ...unknown[]]
+              ? [A0, A1]
+              : T extends [infer A0, (infer A1)?, ...unknown[]]
+                ? [A0, A1?]
+                : T extends [(infer A0)?, (infer A1)?, ...unknown[]]
+                  ? [A0?, A1?]
+                  : never
+
+/** `setState` accepting an action name as third argument, keeping both overloads */
+type StoreZusound<S> = S extends {
+  setState: {
+    (...a: infer Sa1): infer Sr1
+    (...a: infer Sa2): infer Sr2
+  }
+}
+  ? {
+      setState(...a: [...a: TakeTwo<Sa1>, action?: ZusoundAction]): Sr1
+      setState(...a: [...a: TakeTwo<Sa2>, action?: ZusoundAction]): Sr2
+    }
+  : never
+
+type StateOf<S> = S extends { getState: () => infer T } ? T : never
 
-export function zusound<T, U extends any[], V extends any[]>(
-  initializer: AnyStateCreator<T, any, any>,
-  options: CoreOptions = {}
-): AnyStateCreator<T, any, any> {
-  return (set, get, api) => {
+type WithZusound<S> = Write<S, StoreZusound<S>> & { zusound: ZusoundController<StateOf<S>> }
+
+/**
+ * Options of the `zusound` middleware, typed against the store's state `T`.
+ * `P` is inferred from the path literals in `include`, `exclude` and `watchPaths`.
+ */
+export type ZusoundOptions<T, P extends string = string> = CoreOptions<T, P>
+
+type Zusound = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  U = T,
+  const P extends string = string,
+>(
+  initializer: StateCreator<T, [...Mps, ['zusound', never]], Mcs, U>,
+  options?: ZusoundOptions<T, P>
+) => StateCreator<T, Mps, [['zusound', never], ...Mcs]>
+
+type ZusoundImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  options?: ZusoundOptions<T>
+) => StateCreator<T, [], []>
+
+const zusoundImpl: ZusoundImpl =
+  (initializer, options = {}) =>
+  (set, get, api) => {
     const { enabled, ...opts } = options
-    const initialState = initializer(set, get, api)
+    const instance = createCoreInstance(opts.name)
+    const controller = new ZusoundController(instance, opts)
+    Object.assign(api, { zusound: controller })
+
+    // Disabled in production: the controller stays detached
+    if (!enabled && isProduction) {
+      return initializer(set, get, api)
+    }
 
-    if (enabled || !isProduction) {
-      api.subscribe((state, prevState) => coreImpl(state, prevState, opts))
-      if (typeof window !== 'undefined' && !(DIFF_CHUNK_EVENT_NAME in window)) {
-        window[DIFF_CHUNK_EVENT_NAME] = true
-        window.addEventListener(DIFF_CHUNK_EVENT_NAME, () => {})
+    // Record the action of each set call; zustand notifies subscribers synchronously,
+    // so coreImpl reads it while the call is still in progress.
+    const trackAction = <A extends unknown[], R>(setState: (...args: A) => R) => {
+      const trackedSet = (...args: A): R => {
+        const previousAction = instance.currentAction
+        const name = getActionName(args[2])
+        // Middlewares like devtools forward set calls without the action: keep the outer one
+        if (name !== undefined || !previousAction) {
+          instance.currentAction = {
+            name,
+            callSite: controller.getOptions().actions?.captureCallSite
+              ? captureCallSite(trackedSet)
+              : undefined,
+          }
+        }
+        try {
+          return setState(...args)
+        } finally {
+          instance.currentAction = previousAction
+        }
       }
+      return trackedSet
+    }
+
+    // Inner middlewares like devtools replace api.setState and hand their own to the
+    // initializer, so track whatever setState they install too.
+    let setState = trackAction(api.setState) as typeof api.setState
+    Object.defineProperty(api, 'setState', {
+      configurable: true,
+      enumerable: true,
+      get: () => setState,
+      set: (next: typeof api.setState) => {
+        setState = trackAction(next) as typeof api.setState
+      },
+    })
+
+    const initialState = initializer(trackAction(set) as typeof set, get, api)
+
+    controller.attach(api, initialState)
+    if (typeof window !== 'undefined' && !(DIFF_CHUNK_EVENT_NAME in window)) {
+      window[DIFF_CHUNK_EVENT_NAME] = true
+      window.addEventListener(DIFF_CHUNK_EVENT_NAME, () => {})
     }
     return initialState
   }
+
+/**
+ * Zustand middleware that sonifies every state change.
+ * Registers the `zusound` store mutator, so it composes with `devtools`, `persist` and
+ * `immer` in any order, `set` accepts an action name as third argument, and the store
+ * gets a `zusound` controller to mute, pause, reconfigure or detach it at runtime.
+ */
+export const zusound = zusoundImpl as unknown as Zusound
+
+/**
+ * Get the zusound controller of a store, or undefined if the store does not use the
+ * middleware. Works with stores whose type does not carry the `zusound` mutator.
+ */
+export function getZusound<T>(store: { getState: () => T }): ZusoundController<T> | undefined {
+  const { zusound: controller } = store as { zusound?: unknown }
+  return controller instanceof ZusoundController ? controller : undefined
 }
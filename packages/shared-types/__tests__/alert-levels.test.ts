@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  AnomalyChunk,
+  getAlertLevel,
+  getAlertPriority,
+  registerAlertLevel,
+  SonicChunk,
+  unregisterAlertLevel,
+} from '..'
+import { diffImpl } from '../../diff/diff'
+import { IncidentTracker } from '../../core/incidents'
+import { SonicCoalescer } from '../../sonification/coalescer'
+import { anomalyToSonic, diffToSonic } from '../../sonification/sonification'
+
+const page = { priority: 3, sound: { magnitude: 2, detune: 50, duration: 2, frequency: 0.5 } }
+
+const anomaly = (id: string, severity: string): AnomalyChunk => ({
+  id,
+  type: 'rapid-change',
+  path: 'count',
+  changeCount: 1,
+  windowMs: 0,
+  timestamps: [0],
+  severity,
+})
+
+describe('alert levels', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    unregisterAlertLevel('page')
+    unregisterAlertLevel('critical')
+  })
+
+  it('registers and unregisters a level', () => {
+    expect(getAlertLevel('page')).toBeUndefined()
+    registerAlertLevel('page', page)
+    expect(getAlertLevel('page')).toBe(page)
+    expect(getAlertPriority('page')).toBe(3)
+
+    unregisterAlertLevel('page')
+    expect(getAlertLevel('page')).toBeUndefined()
+  })
+
+  it('ranks levels by priority: none, unregistered, warning, critical, then registered', () => {
+    registerAlertLevel('page', page)
+    expect(
+      [undefined, 'unknown', 'warning', 'critical', 'page'].map(level => getAlertPriority(level))
+    ).toEqual([0, 1, 1, 2, 3])
+  })
+
+  it('keeps the voice of the highest priority when sounds are grouped', () => {
+    vi.useFakeTimers()
+    registerAlertLevel('page', page)
+    const play = vi.fn((chunk: SonicChunk) => Promise.resolve(Boolean(chunk)))
+    const coalescer = new SonicCoalescer({ maxVoices: 1 })
+    const voice = (id: string, alertLevel: string): SonicChunk => ({
+      id,
+      type: 'sine',
+      frequency: 440,
+      magnitude: id === 'loud' ? 1 : 0.1,
+      duration: 100,
+      detune: 0,
+      alertLevel,
+    })
+    coalescer.add(voice('loud', 'critical'), play)
+    coalescer.add(voice('paged', 'page'), play)
+    vi.runAllTimers()
+    expect(play.mock.calls.map(([chunk]) => chunk.id)).toEqual(['paged'])
+  })
+
+  it('escalates an open incident to a higher priority level', () => {
+    registerAlertLevel('page', page)
+    const tracker = new IncidentTracker()
+    const options = {
+      key: 'rapid-change:count',
+      resolution: 'none' as const,
+      cooldownMs: 60_000,
+      resolveAfterMs: 60_000,
+    }
+    tracker.report(anomaly('a1', 'critical'), options, vi.fn())
+    expect(tracker.report(anomaly('a2', 'page'), options, vi.fn())).toMatchObject({
+      severity: 'page',
+    })
+    expect(tracker.report(anomaly('a3', 'critical'), options, vi.fn())).toBeNull()
+    tracker.clear()
+  })
+
+  it('applies the sound modifiers of a level to watched changes and anomalies', () => {
+    const diff = { ...diffImpl('status', 'error', 'ok'), alertLevel: 'page' }
+    const watch = { path: 'status', alertLevel: 'page' }
+    const plain = diffToSonic(diff, 100, watch)
+    const plainAlert = anomalyToSonic(anomaly('a1', 'page'))
+
+    registerAlertLevel('page', page)
+    const modified = diffToSonic(diff, 100, watch)
+    expect(modified.magnitude).toBeCloseTo(Math.min(1, plain.magnitude * 2))
+    expect(modified.detune).toBe(plain.detune + 50)
+    expect(modified.duration).toBe(plain.duration * 2)
+    expect(modified.frequency).toBe(plain.frequency * 0.5)
+
+    // Priority 3 also makes the anomaly twice as urgent as a warning
+    const alert = anomalyToSonic(anomaly('a1', 'page'))
+    expect(alert.frequency).toBe(plainAlert.frequency * 2 * 0.5)
+    expect(alert.duration).toBe(plainAlert.duration * 2 * 2)
+    expect(alert.detune).toBe(plainAlert.detune + 50)
+  })
+
+  it('overrides a built-in level until it is unregistered', () => {
+    const builtIn = getAlertLevel('critical')
+    registerAlertLevel('critical', { priority: 5, color: '#000000' })
+    expect(getAlertLevel('critical')).toEqual({ priority: 5, color: '#000000' })
+    expect(getAlertPriority('critical')).toBe(5)
+
+    unregisterAlertLevel('critical')
+    expect(getAlertLevel('critical')).toBe(builtIn)
+    expect(getAlertPriority('critical')).toBe(2)
+  })
+})
@@ -0,0 +1,78 @@
+// packages/shared-types/alert-levels.ts
+
+import type { CustomVisualConfig } from './sonic-chunk'
+import type { AlertLevel } from './watch-path-config'
+
+/** How an alert level changes the sound of a watched change or an anomaly */
+export interface AlertSoundModifiers {
+  /** Volume multiplier */
+  magnitude?: number
+  /** Cents added to the pitch adjustment */
+  detune?: number
+  /** Duration multiplier */
+  duration?: number
+  /** Frequency multiplier */
+  frequency?: number
+}
+
+/** Definition of an alert level, built in or registered with `registerAlertLevel` */
+export interface AlertLevelDefinition {
+  /**
+   * Importance of the level: 'warning' is 1, 'critical' is 2. Higher levels keep their
+   * voice when sounds are grouped, escalate open incidents, and sound louder as anomalies.
+   * The visualizer draws levels of priority 2 and above like 'critical'.
+   */
+  priority: number
+  /** Sound modifiers for watched changes and anomalies at this level */
+  sound?: AlertSoundModifiers
+  /** CSS color the visualizer uses for watched paths and anomalies at this level */
+  color?: string
+  /** Visual effect defaults, overridden by a watch path's or rule's `customVisual` */
+  visual?: Omit<CustomVisualConfig, 'color'>
+}
+
+const BUILT_IN_ALERT_LEVELS: Record<'critical' | 'warning', AlertLevelDefinition> = {
+  critical: {
+    priority: 2,
+    sound: { magnitude: 1.5, detune: 200, duration: 1.3, frequency: 1.1 },
+    color: '#ff1a1a',
+    visual: { intensity: 'high', effect: 'pulse' },
+  },
+  warning: {
+    priority: 1,
+    sound: { magnitude: 1.2, detune: 100, duration: 1.1, frequency: 1.05 },
+    color: '#ffb333',
+    visual: { intensity: 'medium', effect: 'glow' },
+  },
+}
+
+const alertLevels = new Map<string, AlertLevelDefinition>(Object.entries(BUILT_IN_ALERT_LEVELS))
+
+/**
+ * Register an alert level usable in `WatchPathConfig.alertLevel`, anomaly severities and
+ * invariant levels, e.g. `registerAlertLevel('billing', { priority: 1, color: '#2e7d32' })`.
+ * Registering 'critical' or 'warning' replaces the built-in definition.
+ */
+export function registerAlertLevel(name: string, definition: AlertLevelDefinition): void {
+  alertLevels.set(name, definition)
+}
+
+/** Remove a registered alert level; removing a built-in level restores its default */
+export function unregisterAlertLevel(name: string): void {
+  if (name === 'critical' || name === 'warning') {
+    alertLevels.set(name, BUILT_IN_ALERT_LEVELS[name])
+  } else {
+    alertLevels.delete(name)
+  }
+}
+
+/** Definition of an alert level, or undefined if it was never registered */
+export function getAlertLevel(level: AlertLevel | undefined): AlertLevelDefinition | undefined {
+  return level === undefined ? undefined : alertLevels.get(level)
+}
+
+/** Priority of an alert level: 0 without a level, 1 for an unregistered one */
+export function getAlertPriority(level: AlertLevel | undefined): number {
+  if (level === undefined) return 0
+  return alertLevels.get(level)?.priority ?? 1
+}
@@ -1,7 +1,22 @@
+import type { DiffChunk } from './diff-chunk'
+import type { AlertLevel } from './watch-path-config'
+
 export const ANOMALY_CHUNK_EVENT_NAME = '__ZUSOUND_ANOMALY_CHUNK__'
+export const ANOMALY_RESOLVED_EVENT_NAME = '__ZUSOUND_ANOMALY_RESOLVED__'
 
-/** Anomaly pattern types */
-export type AnomalyType = 'rapid-change'
+/** Anomaly pattern types; any other string is the name of a custom detector */
+export type AnomalyType =
+  | 'rapid-change'
+  | 'oscillation'
+  | 'range'
+  | 'type-change'
+  | 'growth'
+  | 'fan-out'
+  | 'redundant-update'
+  | 'mutation'
+  | 'invariant'
+  // Keeps editor completion for the built-in names while accepting any string
+  | (string & {})
 
 /** Anomaly event for problematic state patterns */
 export type AnomalyChunk = {
@@ -11,10 +26,16 @@ export type AnomalyChunk = {
   /** Type of anomaly detected */
   type: AnomalyType
 
-  /** State path where anomaly occurred */
+  /** State path where anomaly occurred, or '*' for anomalies about the whole store ('fan-out') */
   path: string
 
-  /** Number of changes detected in window */
+  /** Name of the store that produced this chunk, when the store was given a `name` */
+  storeName?: string
+
+  /** Name of the action whose update caused this anomaly ('redundant-update', 'mutation') */
+  actionName?: string
+
+  /** Number of changes detected in window, or redundant updates so far ('redundant-update') */
   changeCount: number
 
   /** Time window in ms where changes occurred */
@@ -23,6 +44,51 @@ export type AnomalyChunk = {
   /** Timestamps of the rapid changes */
   timestamps: number[]
 
-  /** Severity level */
-  severity: 'warning' | 'critical'
+  /** Number of A→B→A reversals in the window ('oscillation') */
+  reversals?: number
+
+  /** Distinct values the path alternated between ('oscillation') */
+  values?: unknown[]
+
+  /** Value after the change ('range', 'type-change') */
+  value?: unknown
+
+  /** Value before the change ('range', 'type-change') */
+  previousValue?: unknown
+
+  /** Bound or threshold that was crossed ('range') */
+  threshold?: number
+
+  /** Whether the value crossed `threshold` going up or down ('range') */
+  direction?: 'up' | 'down'
+
+  /** Value type before the change ('type-change') */
+  fromType?: DiffChunk['valueType']
+
+  /** Value type after the change ('type-change') */
+  toType?: DiffChunk['valueType']
+
+  /** Recent sizes (items, keys or bytes) of the growth streak, oldest first ('growth') */
+  sizes?: number[]
+
+  /** Growth over the streak, in items, keys or bytes per second ('growth') */
+  growthRate?: number
+
+  /** Paths changed by the update ('fan-out') */
+  paths?: string[]
+
+  /** Name of the violated invariant ('invariant') */
+  invariant?: string
+
+  /** ID of the first anomaly of the incident this anomaly was merged into */
+  incidentId?: string
+
+  /** Number of times the incident occurred so far, including while cooling down */
+  occurrences?: number
+
+  /** 'active' while the incident is ongoing, 'resolved' once it has stopped */
+  status?: 'active' | 'resolved'
+
+  /** Severity level: 'warning', 'critical' or a registered alert level */
+  severity: AlertLevel
 }
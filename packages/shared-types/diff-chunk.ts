@@ -1,18 +1,41 @@
 export const DIFF_CHUNK_EVENT_NAME = '__ZUSOUND_DIFF_CHUNK__'
 
+/** Structural operation detected between two versions of an array */
+export type ArrayOperation =
+  /** Item added at `index` of the next array */
+  | { type: 'insert'; index: number }
+  /** Item removed from `index` of the previous array */
+  | { type: 'remove'; index: number }
+  /** Item moved from `from` in the previous array to `to` in the next array */
+  | { type: 'move'; from: number; to: number }
+  /** Item kept its identity (or position) but its content changed, at `index` of the next array */
+  | { type: 'update'; index: number }
+
 /** Diff event triggered by state changes */
 export type DiffChunk = {
-  /** Stringified next value for identity/debugging */
+  /** Stringified next value for identity/debugging, or a structural hash for large values */
   id: string
 
   /** Key/path of changed state */
   path: string
 
-  /** Based on diffPower: < 0 =remove, > 0 = add, else = change */
+  /** Based on diffPower: < 0 =remove, > 0 = add, else = change.
+   * Numbers, bigints and dates use the signed delta (dates in seconds), maps and sets
+   * the change in size. */
   type: 'add' | 'remove' | 'change'
 
   /** Type of the changed value */
-  valueType: 'number' | 'string' | 'boolean' | 'object' | 'array' | 'unknown'
+  valueType:
+    | 'number'
+    | 'string'
+    | 'boolean'
+    | 'object'
+    | 'array'
+    | 'map'
+    | 'set'
+    | 'date'
+    | 'bigint'
+    | 'unknown'
 
   /** Stringified value length */
   diff: string
@@ -20,9 +43,27 @@ export type DiffChunk = {
   /** Algorithm-determined value */
   diffPower: number
 
+  /** True when `diff`/`diffPower` were estimated because the value exceeded the diff budget */
+  estimated?: boolean
+
+  /** Per-item operations, present when both the previous and next values are arrays */
+  arrayOperations?: ArrayOperation[]
+
+  /** Name of the store that produced this chunk, when the store was given a `name` */
+  storeName?: string
+
+  /** Action name passed to `set(partial, replace, actionName)`, if any */
+  actionName?: string
+
+  /** Code location that called `set`, when call-site capture is enabled */
+  callSite?: string
+
   /** Optional alert level for critical state watchers */
-  alertLevel?: 'critical' | 'warning'
+  alertLevel?: import('./watch-path-config').AlertLevel
 
   /** Optional watch path configuration that matched this change */
   watchConfig?: import('./watch-path-config').WatchPathConfig
+
+  /** Previous and next value at the watched path, when it has `from`, `to` or `when` */
+  transition?: { from: unknown; to: unknown }
 }
@@ -1,6 +1,10 @@
 import { DIFF_CHUNK_EVENT_NAME, DiffChunk } from './diff-chunk'
 import { SONIC_CHUNK_EVENT_NAME, SonicChunk } from './sonic-chunk'
-import { ANOMALY_CHUNK_EVENT_NAME, AnomalyChunk } from './anomaly-chunk'
+import {
+  ANOMALY_CHUNK_EVENT_NAME,
+  ANOMALY_RESOLVED_EVENT_NAME,
+  AnomalyChunk,
+} from './anomaly-chunk'
 
 export interface ZusoundSoundEvent extends CustomEvent {
   detail: {
@@ -20,11 +24,18 @@ export interface ZusoundAnomalyEvent extends CustomEvent {
   }
 }
 
+export interface ZusoundAnomalyResolvedEvent extends CustomEvent {
+  detail: {
+    chunk: AnomalyChunk
+  }
+}
+
 declare global {
   interface WindowEventMap {
     [SONIC_CHUNK_EVENT_NAME]: ZusoundSoundEvent
     [DIFF_CHUNK_EVENT_NAME]: ZusoundDiffEvent
     [ANOMALY_CHUNK_EVENT_NAME]: ZusoundAnomalyEvent
+    [ANOMALY_RESOLVED_EVENT_NAME]: ZusoundAnomalyResolvedEvent
   }
 }
 
@@ -42,9 +53,27 @@ export const isAnomalyEvent = (event: Event): event is ZusoundAnomalyEvent => {
   )
 }
 
-export type { SonicChunk } from './sonic-chunk.ts'
-export type { DiffChunk } from './diff-chunk.ts'
+export const isAnomalyResolvedEvent = (event: Event): event is ZusoundAnomalyResolvedEvent => {
+  return (
+    event instanceof CustomEvent && event.type === ANOMALY_RESOLVED_EVENT_NAME && 'detail' in event
+  )
+}
+
+export type { SonicChunk, SonicMotif, CustomVisualConfig } from './sonic-chunk.ts'
+export type { DiffChunk, ArrayOperation } from './diff-chunk.ts'
 export type { AnomalyChunk, AnomalyType } from './anomaly-chunk.ts'
-export type { WatchPathConfig, AlertLevel } from './watch-path-config.ts'
+export type { WatchPathConfig, AlertLevel, TransitionMatcher } from './watch-path-config.ts'
+export type { AlertLevelDefinition, AlertSoundModifiers } from './alert-levels'
+export {
+  registerAlertLevel,
+  unregisterAlertLevel,
+  getAlertLevel,
+  getAlertPriority,
+} from './alert-levels'
 
-export { SONIC_CHUNK_EVENT_NAME, DIFF_CHUNK_EVENT_NAME, ANOMALY_CHUNK_EVENT_NAME }
+export {
+  SONIC_CHUNK_EVENT_NAME,
+  DIFF_CHUNK_EVENT_NAME,
+  ANOMALY_CHUNK_EVENT_NAME,
+  ANOMALY_RESOLVED_EVENT_NAME,
+}
@@ -1,4 +1,28 @@
 export const SONIC_CHUNK_EVENT_NAME = '__ZUSOUND_SONIC_CHUNK__'
+
+/** Note pattern played in place of a single tone
+ * - rising: ascending arpeggio (array inserts)
+ * - falling: descending arpeggio (array removals)
+ * - zigzag: alternating pitches (array moves) */
+export type SonicMotif = 'rising' | 'falling' | 'zigzag'
+
+/** How the visualizer draws an event, overriding the defaults for its alert level */
+export interface CustomVisualConfig {
+  /** CSS color for the event, e.g. "#ff8800" or "rgb(255, 136, 0)" */
+  color?: string
+  /** Intensity level for visual effects */
+  intensity?: 'low' | 'medium' | 'high'
+  /**
+   * Effect drawn around the event
+   * - glow: a soft halo around the ring
+   * - pulse: the ring throbs while it expands
+   * - flash: the whole event lights up briefly when it starts
+   *
+   * Other names are accepted and drawn without an effect.
+   */
+  effect?: 'glow' | 'pulse' | 'flash' | (string & {})
+}
+
 /** Sound event triggered by state changes */
 export type SonicChunk = {
   /** Unique ID, usually the changed state's key path */
@@ -23,15 +47,30 @@ export type SonicChunk = {
   /** Pitch adjustment in cents (-600 to 600) */
   detune: number
 
+  /** Optional note pattern, played as a short arpeggio instead of a single tone */
+  motif?: SonicMotif
+
+  /** Number of notes in the motif (2-5) */
+  motifNotes?: number
+
+  /** Name of the store that produced this chunk, when the store was given a `name` */
+  storeName?: string
+
+  /** Action that produced the change, copied from the DiffChunk */
+  actionName?: string
+
   /** Optional alert level for critical state watchers */
-  alertLevel?: 'critical' | 'warning'
+  alertLevel?: import('./watch-path-config').AlertLevel
 
   /** Flag indicating this is from a critical path watcher */
   isCriticalPath?: boolean
 
+  /** Visual overrides from the watch path or anomaly rule that produced this chunk */
+  customVisual?: CustomVisualConfig
+
   /** Flag indicating this is an anomaly alert */
   isAnomaly?: boolean
 
-  /** Anomaly type for specific audio patterns */
-  anomalyType?: 'rapid-change'
+  /** Anomaly type for specific audio patterns, also set on the sound of a resolved anomaly */
+  anomalyType?: import('./anomaly-chunk').AnomalyType
 }
@@ -1,28 +1,54 @@
 // packages/shared-types/watch-path-config.ts
 
-import type { SonicChunk } from './sonic-chunk'
+import type { CustomVisualConfig, SonicChunk } from './sonic-chunk'
 
-/** Alert level for critical state watchers */
-export type AlertLevel = 'critical' | 'warning'
+/**
+ * Alert level for critical state watchers and anomalies: a built-in level or one
+ * registered with `registerAlertLevel`
+ */
+export type AlertLevel = 'critical' | 'warning' | (string & {})
 
-/** Configuration for watching specific state paths with heightened sensitivity */
-export interface WatchPathConfig {
+/**
+ * Matches one side of a transition: a value compared with `Object.is`, a list of such
+ * values (any of them), or a predicate. Use a predicate to match `undefined` or an array.
+ */
+export type TransitionMatcher =
+  | string
+  | number
+  | boolean
+  | bigint
+  | null
+  | Array<string | number | boolean | bigint | null>
+  | ((value: unknown) => boolean)
+
+/**
+ * Configuration for watching specific state paths with heightened sensitivity.
+ * `P` narrows `path` to the patterns valid for a store's state.
+ */
+export interface WatchPathConfig<P extends string = string> {
   /** State path to watch (e.g., "session.user.id", "cart.items") */
-  path: string
+  path: P
 
   /** Alert level determining the intensity of feedback */
   alertLevel: AlertLevel
 
+  /**
+   * Only alert when the value at the watched path was this before the change,
+   * e.g. `{ path: 'status', from: 'paid', to: 'pending' }`. Conditions always compare the
+   * watched value, also when only a nested value changed (`deep`) or the change was
+   * reported for an ancestor. With a `**` pattern, the changed value itself is compared.
+   */
+  from?: TransitionMatcher
+
+  /** Only alert when the value at the watched path is this after the change, e.g. `to: null` */
+  to?: TransitionMatcher
+
+  /** Only alert when this returns true for the watched value, its previous value and path */
+  when?: (value: unknown, previousValue: unknown, path: string) => boolean
+
   /** Optional custom sound properties to override defaults */
   customSound?: Partial<SonicChunk>
 
   /** Optional custom visual properties for enhanced visualization */
-  customVisual?: {
-    /** Custom color for the visual effect */
-    color?: string
-    /** Intensity level for visual effects */
-    intensity?: 'low' | 'medium' | 'high'
-    /** Custom glow or pulse effects */
-    effect?: 'glow' | 'pulse' | 'flash'
-  }
+  customVisual?: CustomVisualConfig
 }
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SonicChunk } from '../../shared-types'
+import { SonicCoalescer } from '../coalescer'
+
+const chunk = (id: string, extra: Partial<SonicChunk> = {}): SonicChunk => ({
+  id,
+  type: 'sine',
+  frequency: 440,
+  magnitude: 0.5,
+  duration: 100,
+  detune: 0,
+  ...extra,
+})
+
+describe('SonicCoalescer', () => {
+  const play = vi.fn((played: SonicChunk) => Promise.resolve(Boolean(played)))
+  const played = () => play.mock.calls.map(([voice]) => voice)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    play.mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('plays the sounds of one tick as an attenuated chord', () => {
+    const coalescer = new SonicCoalescer()
+    coalescer.add(chunk('a'), play)
+    coalescer.add(chunk('b'), play)
+    expect(play).not.toHaveBeenCalled()
+
+    vi.runAllTimers()
+    expect(played().map(voice => voice.id)).toEqual(['a', 'b'])
+    played().forEach(voice => expect(voice.magnitude).toBeCloseTo(0.5 / Math.sqrt(2)))
+  })
+
+  it('keeps the most important voices, in their original order', () => {
+    const coalescer = new SonicCoalescer({ maxVoices: 2 })
+    coalescer.add(chunk('quiet', { magnitude: 0.1 }), play)
+    coalescer.add(chunk('loud', { magnitude: 0.9 }), play)
+    coalescer.add(chunk('critical', { magnitude: 0.1, alertLevel: 'critical' }), play)
+    vi.runAllTimers()
+    expect(played().map(voice => voice.id)).toEqual(['loud', 'critical'])
+  })
+
+  it('staggers arpeggio voices without attenuating them', () => {
+    const coalescer = new SonicCoalescer({ mode: 'arpeggio' })
+    ;['a', 'b', 'c'].forEach(id => coalescer.add(chunk(id), play))
+    coalescer.flush()
+
+    vi.advanceTimersByTime(0)
+    expect(play).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(100)
+    expect(played().map(voice => [voice.id, voice.magnitude])).toEqual([
+      ['a', 0.5],
+      ['b', 0.5],
+      ['c', 0.5],
+    ])
+  })
+
+  it('collects sounds for `windowMs`', () => {
+    const coalescer = new SonicCoalescer({ windowMs: 16 })
+    coalescer.add(chunk('a'), play)
+    vi.advanceTimersByTime(10)
+    coalescer.add(chunk('b'), play)
+    vi.advanceTimersByTime(5)
+    expect(play).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(play).toHaveBeenCalledTimes(2)
+
+    coalescer.add(chunk('c'), play)
+    vi.runAllTimers()
+    expect(play).toHaveBeenCalledTimes(3)
+    expect(play).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'c', magnitude: 0.5 }))
+  })
+
+  it('applies a new config from the next group', () => {
+    const coalescer = new SonicCoalescer()
+    coalescer.setConfig({ maxVoices: 1 })
+    coalescer.add(chunk('a'), play)
+    coalescer.add(chunk('b', { magnitude: 0.8 }), play)
+    vi.runAllTimers()
+    expect(played().map(voice => [voice.id, voice.magnitude])).toEqual([['b', 0.8]])
+  })
+})
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SonicChunk } from '../../shared-types'
+import { SoundBudgetConfig, SoundRateLimiter } from '../rate-limiter'
+
+const chunk = (id: string, extra: Partial<SonicChunk> = {}): SonicChunk => ({
+  id,
+  type: 'sine',
+  frequency: 440,
+  magnitude: 0.5,
+  duration: 100,
+  detune: 0,
+  ...extra,
+})
+
+const limiter = SoundRateLimiter.getInstance()
+const play = vi.fn((played: SonicChunk) => Promise.resolve(Boolean(played)))
+
+/** Submit `count` sounds for `id` at once, returning how many played right away */
+async function burst(id: string, count: number, extra?: Partial<SonicChunk>): Promise<number> {
+  const results = await Promise.all(
+    Array.from({ length: count }, () => limiter.submit(chunk(id, extra), play))
+  )
+  return results.filter(Boolean).length
+}
+
+function setup(config: SoundBudgetConfig) {
+  limiter.configure(config)
+  limiter.resetStats()
+}
+
+describe('SoundRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] })
+    play.mockClear()
+  })
+
+  afterEach(() => {
+    // Flush waiting sounds so they don't leak into the next test
+    vi.advanceTimersByTime(60_000)
+    vi.useRealTimers()
+  })
+
+  it('limits sounds per path and globally', async () => {
+    setup({ perPath: { rate: 2 }, global: { rate: 5 } })
+    expect(await burst('a', 4)).toBe(2)
+    expect(await burst('b', 4)).toBe(2)
+    expect(await burst('c', 4)).toBe(1)
+    expect(limiter.getStats()).toMatchObject({
+      played: 5,
+      dropped: 7,
+      limitedByPath: { a: 2, b: 2, c: 3 },
+    })
+  })
+
+  it('allows 8 sounds per path and 20 overall by default', async () => {
+    setup({})
+    expect(await burst('a', 10)).toBe(8)
+    expect(await burst('b', 10)).toBe(8)
+    expect(await burst('c', 10)).toBe(4)
+  })
+
+  it('refills the budget over time', async () => {
+    setup({ perPath: { rate: 2 } })
+    expect(await burst('a', 3)).toBe(2)
+    vi.advanceTimersByTime(500)
+    expect(await burst('a', 3)).toBe(1)
+  })
+
+  it('plays everything when disabled', async () => {
+    setup({ enabled: false, perPath: { rate: 1 } })
+    expect(await burst('a', 10)).toBe(10)
+    expect(limiter.getStats()).toMatchObject({ played: 10, dropped: 0, limitedByPath: {} })
+  })
+
+  it('shares one budget per anomaly type instead of per anomaly id', async () => {
+    setup({ perPath: { rate: 1 } })
+    await limiter.submit(chunk('anomaly-1', { isAnomaly: true, anomalyType: 'range' }), play)
+    await limiter.submit(chunk('anomaly-2', { isAnomaly: true, anomalyType: 'range' }), play)
+    expect(limiter.getStats().limitedByPath).toEqual({ 'anomaly:range': 1 })
+  })
+
+  it('keeps alerts out of the global budget', async () => {
+    setup({ global: { rate: 2 } })
+    expect(await burst('anomaly', 2, { isAnomaly: true, anomalyType: 'range' })).toBe(2)
+    expect(await burst('watched', 2, { alertLevel: 'critical' })).toBe(2)
+    // Alerts did not use up the global budget, and play once other sounds have
+    expect(await burst('a', 4)).toBe(2)
+    expect(await burst('anomaly', 1, { isAnomaly: true, anomalyType: 'growth' })).toBe(1)
+  })
+
+  it('still limits alerts per anomaly type and path', async () => {
+    setup({ perPath: { rate: 1 } })
+    expect(await burst('anomaly', 3, { isAnomaly: true, anomalyType: 'range' })).toBe(1)
+    expect(await burst('watched', 3, { alertLevel: 'warning' })).toBe(1)
+  })
+
+  it('counts changes at unregistered alert levels against the global budget', async () => {
+    setup({ global: { rate: 1 } })
+    expect(await burst('a', 1)).toBe(1)
+    expect(await burst('custom', 1, { alertLevel: 'not-registered' })).toBe(0)
+  })
+
+  it('merges waiting sounds for the same path, playing the latest once budget returns', async () => {
+    setup({ perPath: { rate: 1 }, policy: 'merge' })
+    await limiter.submit(chunk('a', { frequency: 1 }), play)
+    await limiter.submit(chunk('a', { frequency: 2 }), play)
+    await limiter.submit(chunk('a', { frequency: 3 }), play)
+    expect(play).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1000)
+    expect(play).toHaveBeenCalledTimes(2)
+    expect(play).toHaveBeenLastCalledWith(expect.objectContaining({ frequency: 3 }))
+    expect(limiter.getStats()).toMatchObject({ played: 2, merged: 1, dropped: 0 })
+  })
+
+  it('folds limited sounds into one summary sound', async () => {
+    setup({ global: { rate: 2 }, policy: 'summarize' })
+    expect(await burst('a', 6)).toBe(2)
+    expect(limiter.getStats()).toMatchObject({ played: 2, summarized: 4 })
+
+    vi.advanceTimersByTime(1000)
+    expect(play).toHaveBeenCalledTimes(3)
+    expect(play).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'summary-4' }))
+  })
+
+  it('counts paths past the limit together', async () => {
+    setup({ global: { rate: 1000 }, perPath: { rate: 1 } })
+    for (let i = 0; i < 110; i++) await burst(`path-${i}`, 2)
+    const { limitedByPath } = limiter.getStats()
+    expect(Object.keys(limitedByPath)).toHaveLength(101)
+    expect(limitedByPath['(other)']).toBe(10)
+  })
+
+  it('resets the counters', async () => {
+    setup({ perPath: { rate: 1 } })
+    await burst('a', 2)
+    limiter.resetStats()
+    expect(limiter.getStats()).toEqual({
+      played: 0,
+      dropped: 0,
+      merged: 0,
+      summarized: 0,
+      limitedByPath: {},
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { AUDIO_CONFIG } from './constants'
+import { getAlertPriority } from '../shared-types'
+import type { SonicChunk } from '../shared-types'
+
+/** Configuration for grouping the sounds of one update into a chord or arpeggio */
+export interface CoalesceConfig {
+  /** Group sounds instead of playing each one independently. Defaults to `true`. */
+  enabled?: boolean
+  /**
+   * How long to collect sounds before playing them, in ms. `0` groups everything
+   * produced in the same tick, i.e. one `set` call; ~16 groups one animation frame.
+   * Defaults to 0.
+   */
+  windowMs?: number
+  /** Maximum number of sounds played per group; the least important are dropped. Defaults to 4. */
+  maxVoices?: number
+  /** Play the group as a simultaneous `chord` or a staggered `arpeggio`. Defaults to 'chord'. */
+  mode?: 'chord' | 'arpeggio'
+}
+
+export const DEFAULT_COALESCE_CONFIG: Required<CoalesceConfig> = {
+  enabled: true,
+  windowMs: 0,
+  maxVoices: 4,
+  mode: 'chord',
+}
+
+type PlayFn = (chunk: SonicChunk) => Promise<boolean>
+
+/**
+ * Collects sonic chunks for a short window and plays them as one group.
+ * Chord voices are attenuated so the group is not louder than a single change,
+ * arpeggio voices are staggered by `AUDIO_CONFIG.STAGGER_DELAY_MS`.
+ */
+export class SonicCoalescer {
+  private config: Required<CoalesceConfig>
+  private pending: { chunk: SonicChunk; play: PlayFn }[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(config: CoalesceConfig = {}) {
+    this.config = { ...DEFAULT_COALESCE_CONFIG, ...config }
+  }
+
+  /** Update the grouping configuration; applies from the next flush */
+  public setConfig(config: CoalesceConfig): void {
+    this.config = { ...DEFAULT_COALESCE_CONFIG, ...config }
+  }
+
+  /** Queue a chunk, played by `play` when the group is flushed */
+  public add(chunk: SonicChunk, play: PlayFn): void {
+    this.pending.push({ chunk, play })
+    if (this.timer === null) {
+      this.timer = setTimeout(() => this.flush(), this.config.windowMs)
+    }
+  }
+
+  /** Play everything queued so far as one group */
+  public flush(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    const group = this.pending
+    this.pending = []
+    if (group.length === 0) return
+
+    const maxVoices = Math.max(1, this.config.maxVoices)
+    // Keep the most important voices, then restore their original order
+    const voices = group
+      .map((entry, index) => ({ ...entry, index }))
+      .sort(
+        (a, b) =>
+          getAlertPriority(b.chunk.alertLevel) - getAlertPriority(a.chunk.alertLevel) ||
+          b.chunk.magnitude - a.chunk.magnitude
+      )
+      .slice(0, maxVoices)
+      .sort((a, b) => a.index - b.index)
+
+    const isChord = this.config.mode === 'chord'
+    const attenuation = isChord ? 1 / Math.sqrt(voices.length) : 1
+
+    voices.forEach(({ chunk, play }, i) => {
+      const voice = { ...chunk, magnitude: chunk.magnitude * attenuation }
+      const delay = isChord ? 0 : i * AUDIO_CONFIG.STAGGER_DELAY_MS
+      setTimeout(() => {
+        play(voice).catch(err => {
+          console.error(`Error during grouped playback for chunk ${voice.id}:`, err)
+        })
+      }, delay)
+    })
+  }
+}
@@ -17,4 +17,10 @@ export const AUDIO_CONFIG = {
 
   /** Delay between sounds in ms */
   STAGGER_DELAY_MS: 50,
+
+  /** Minimum and maximum number of notes in a motif */
+  MOTIF_NOTES: {
+    MIN: 2,
+    MAX: 5,
+  },
 }
@@ -1 +1,24 @@
-export { sonifyChanges, sonifyAnomaly, anomalyToSonic, playAnomalySonicChunk } from './sonification'
+export {
+  sonifyChanges,
+  sonifyAnomaly,
+  sonifyRedundantUpdate,
+  sonifyResolved,
+  anomalyToSonic,
+  playAnomalySonicChunk,
+  playMotifSonicChunk,
+} from './sonification'
+export { SonicCoalescer, DEFAULT_COALESCE_CONFIG } from './coalescer'
+export type { CoalesceConfig } from './coalescer'
+export {
+  SoundRateLimiter,
+  configureSoundBudget,
+  getSoundBudgetStats,
+  resetSoundBudgetStats,
+  DEFAULT_SOUND_BUDGET,
+} from './rate-limiter'
+export type {
+  SoundBudgetConfig,
+  SoundBudgetPolicy,
+  SoundBudgetStats,
+  TokenBucketConfig,
+} from './rate-limiter'
@@ -0,0 +1,303 @@
+import { AUDIO_CONFIG } from './constants'
+import { getAlertLevel } from '../shared-types'
+import type { SonicChunk } from '../shared-types'
+
+/** Token bucket settings */
+export interface TokenBucketConfig {
+  /** Sounds allowed per second on average */
+  rate: number
+  /** Sounds allowed in a single burst. Defaults to `rate`. */
+  burst?: number
+}
+
+/**
+ * What happens to a sound that exceeds the budget:
+ * - drop: it is discarded
+ * - merge: it waits for budget, replacing any earlier waiting sound for the same path
+ * - summarize: it is folded into a single summary sound played once budget returns
+ */
+export type SoundBudgetPolicy = 'drop' | 'merge' | 'summarize'
+
+/** Configuration for the global sound budget */
+export interface SoundBudgetConfig {
+  /** Enforce the budget. Defaults to `true`. */
+  enabled?: boolean
+  /**
+   * Budget shared by every sound from every store, except alerts: anomalies and changes of
+   * paths watched at a registered alert level only use their per-path budget, so a busy
+   * store cannot crowd them out
+   */
+  global?: TokenBucketConfig
+  /** Budget for each state path (per store) */
+  perPath?: TokenBucketConfig
+  /** What to do with sounds over budget. Defaults to 'drop'. */
+  policy?: SoundBudgetPolicy
+}
+
+/** Counters describing what the sound budget did */
+export interface SoundBudgetStats {
+  /** Sounds that started playing */
+  played: number
+  /** Sounds discarded by the 'drop' policy */
+  dropped: number
+  /** Waiting sounds replaced by a newer one for the same path ('merge' policy) */
+  merged: number
+  /** Sounds folded into a summary sound ('summarize' policy) */
+  summarized: number
+  /**
+   * Over-budget sounds per path, whatever the policy. Past 100 paths, further paths
+   * are counted together under '(other)'.
+   */
+  limitedByPath: Record<string, number>
+}
+
+type ResolvedSoundBudget = {
+  enabled: boolean
+  global: Required<TokenBucketConfig>
+  perPath: Required<TokenBucketConfig>
+  policy: SoundBudgetPolicy
+}
+
+export const DEFAULT_SOUND_BUDGET: ResolvedSoundBudget = {
+  enabled: true,
+  global: { rate: 20, burst: 20 },
+  perPath: { rate: 8, burst: 8 },
+  policy: 'drop',
+}
+
+type PlayFn = (chunk: SonicChunk) => Promise<boolean>
+
+/** Paths counted separately in `limitedByPath` */
+const MAX_LIMITED_PATHS = 100
+const OTHER_PATHS_KEY = '(other)'
+
+/** Minimum time between two sweeps of idle path buckets */
+const BUCKET_SWEEP_INTERVAL_MS = 1000
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+const refill = (bucket: Bucket, config: Required<TokenBucketConfig>, now: number): void => {
+  const elapsed = now - bucket.updatedAt
+  bucket.tokens = Math.min(config.burst, bucket.tokens + (elapsed * config.rate) / 1000)
+  bucket.updatedAt = now
+}
+
+const toBucketConfig = (
+  config: TokenBucketConfig | undefined,
+  fallback: Required<TokenBucketConfig>
+): Required<TokenBucketConfig> =>
+  config ? { rate: config.rate, burst: config.burst ?? config.rate } : fallback
+
+/**
+ * Key identifying the path a sound belongs to. Anomalies and their resolutions have
+ * unique ids, so they share a budget per anomaly type instead.
+ */
+const getBudgetKey = (chunk: SonicChunk): string => {
+  const store = chunk.storeName ? `${chunk.storeName}:` : ''
+  if (chunk.isAnomaly) return `${store}anomaly:${chunk.anomalyType}`
+  if (chunk.anomalyType !== undefined) return `${store}resolved:${chunk.anomalyType}`
+  return `${store}${chunk.id}`
+}
+
+/** Whether a sound is an alert, which bypasses the global budget */
+const isAlert = (chunk: SonicChunk): boolean =>
+  !!chunk.isAnomaly || getAlertLevel(chunk.alertLevel) !== undefined
+
+/**
+ * Class enforcing a token-bucket budget on how many sounds start per second,
+ * globally and per path, shared by every store on the page.
+ */
+export class SoundRateLimiter {
+  private static instance: SoundRateLimiter | null = null
+  private config: ResolvedSoundBudget = DEFAULT_SOUND_BUDGET
+  private globalBucket: Bucket = { tokens: DEFAULT_SOUND_BUDGET.global.burst, updatedAt: 0 }
+  private pathBuckets = new Map<string, Bucket>()
+  private lastSweepAt = 0
+  private waiting = new Map<string, { chunk: SonicChunk; play: PlayFn }>()
+  private summary: { count: number; last: SonicChunk; play: PlayFn } | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private stats: SoundBudgetStats = SoundRateLimiter.emptyStats()
+
+  private constructor() {}
+
+  /** Get the singleton instance of SoundRateLimiter. */
+  public static getInstance(): SoundRateLimiter {
+    if (SoundRateLimiter.instance === null) {
+      SoundRateLimiter.instance = new SoundRateLimiter()
+    }
+    return SoundRateLimiter.instance
+  }
+
+  private static emptyStats(): SoundBudgetStats {
+    return { played: 0, dropped: 0, merged: 0, summarized: 0, limitedByPath: {} }
+  }
+
+  /** Replace the budget configuration. Omitted fields use the defaults. */
+  public configure(config: SoundBudgetConfig): void {
+    this.config = {
+      enabled: config.enabled ?? DEFAULT_SOUND_BUDGET.enabled,
+      global: toBucketConfig(config.global, DEFAULT_SOUND_BUDGET.global),
+      perPath: toBucketConfig(config.perPath, DEFAULT_SOUND_BUDGET.perPath),
+      policy: config.policy ?? DEFAULT_SOUND_BUDGET.policy,
+    }
+    this.globalBucket = { tokens: this.config.global.burst, updatedAt: performance.now() }
+    this.pathBuckets.clear()
+  }
+
+  /** Snapshot of the counters */
+  public getStats(): SoundBudgetStats {
+    return { ...this.stats, limitedByPath: { ...this.stats.limitedByPath } }
+  }
+
+  /** Reset all counters to zero */
+  public resetStats(): void {
+    this.stats = SoundRateLimiter.emptyStats()
+  }
+
+  /**
+   * Play a chunk if the budget allows it, otherwise apply the configured policy.
+   * @returns Promise resolving to the result of `play`, or false if the sound was limited.
+   */
+  public submit(chunk: SonicChunk, play: PlayFn): Promise<boolean> {
+    if (!this.config.enabled) {
+      this.stats.played++
+      return play(chunk)
+    }
+
+    const key = getBudgetKey(chunk)
+    if (this.tryConsume(key, isAlert(chunk))) {
+      this.stats.played++
+      return play(chunk)
+    }
+
+    const { limitedByPath } = this.stats
+    const statsKey =
+      key in limitedByPath || Object.keys(limitedByPath).length < MAX_LIMITED_PATHS
+        ? key
+        : OTHER_PATHS_KEY
+    limitedByPath[statsKey] = (limitedByPath[statsKey] ?? 0) + 1
+
+    switch (this.config.policy) {
+      case 'merge':
+        if (this.waiting.has(key)) this.stats.merged++
+        this.waiting.set(key, { chunk, play })
+        this.scheduleRetry()
+        break
+      case 'summarize':
+        this.stats.summarized++
+        this.summary = { count: (this.summary?.count ?? 0) + 1, last: chunk, play }
+        this.scheduleRetry()
+        break
+      case 'drop':
+      default:
+        this.stats.dropped++
+        break
+    }
+    return Promise.resolve(false)
+  }
+
+  private getPathBucket(key: string, now: number): Bucket {
+    let bucket = this.pathBuckets.get(key)
+    if (!bucket) {
+      this.sweepPathBuckets(now)
+      bucket = { tokens: this.config.perPath.burst, updatedAt: now }
+      this.pathBuckets.set(key, bucket)
+    }
+    return bucket
+  }
+
+  /** Drop the buckets that have refilled completely: they are the same as new ones */
+  private sweepPathBuckets(now: number): void {
+    if (now - this.lastSweepAt < BUCKET_SWEEP_INTERVAL_MS) return
+    this.lastSweepAt = now
+    const { perPath } = this.config
+    this.pathBuckets.forEach((bucket, key) => {
+      const refilled = bucket.tokens + ((now - bucket.updatedAt) * perPath.rate) / 1000
+      if (refilled >= perPath.burst && !this.waiting.has(key)) this.pathBuckets.delete(key)
+    })
+  }
+
+  /**
+   * Take one token from both the global and the path bucket, if both have one.
+   * Alerts only take one from their path bucket.
+   */
+  private tryConsume(key: string | null, alert = false): boolean {
+    const now = performance.now()
+    refill(this.globalBucket, this.config.global, now)
+    if (!alert && this.globalBucket.tokens < 1) return false
+
+    if (key !== null) {
+      const pathBucket = this.getPathBucket(key, now)
+      refill(pathBucket, this.config.perPath, now)
+      if (pathBucket.tokens < 1) return false
+      pathBucket.tokens -= 1
+    }
+
+    if (!alert) this.globalBucket.tokens -= 1
+    return true
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) return
+    const delay = Math.max(AUDIO_CONFIG.STAGGER_DELAY_MS, 1000 / this.config.global.rate)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.retryWaiting()
+    }, delay)
+  }
+
+  /** Play waiting sounds (merge) or the summary sound (summarize) as budget allows */
+  private retryWaiting(): void {
+    for (const [key, { chunk, play }] of this.waiting) {
+      if (!this.tryConsume(key, isAlert(chunk))) continue
+      this.waiting.delete(key)
+      this.stats.played++
+      play(chunk).catch(err => {
+        console.error(`Error during deferred playback for chunk ${chunk.id}:`, err)
+      })
+    }
+
+    if (this.summary && this.tryConsume(null)) {
+      const { count, last, play } = this.summary
+      this.summary = null
+      const summaryChunk: SonicChunk = {
+        ...last,
+        id: `summary-${count}`,
+        type: 'triangle',
+        frequency: AUDIO_CONFIG.BASE_FREQUENCY * 2,
+        // Louder and longer the more sounds it stands for
+        magnitude: Math.min(0.6, 0.2 + count * 0.02),
+        duration: Math.min(400, AUDIO_CONFIG.MIN_DURATION_MS + count * 10),
+        detune: 0,
+        motif: undefined,
+        anomalyType: undefined,
+      }
+      this.stats.played++
+      play(summaryChunk).catch(err => {
+        console.error('Error during summary playback:', err)
+      })
+    }
+
+    if (this.waiting.size > 0 || this.summary) {
+      this.scheduleRetry()
+    }
+  }
+}
+
+/** Configure the sound budget shared by all stores */
+export function configureSoundBudget(config: SoundBudgetConfig): void {
+  SoundRateLimiter.getInstance().configure(config)
+}
+
+/** Get counters of played and limited sounds */
+export function getSoundBudgetStats(): SoundBudgetStats {
+  return SoundRateLimiter.getInstance().getStats()
+}
+
+/** Reset the sound budget counters */
+export function resetSoundBudgetStats(): void {
+  SoundRateLimiter.getInstance().resetStats()
+}
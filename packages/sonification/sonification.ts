@@ -1,5 +1,7 @@
 import { AUDIO_CONFIG } from './constants'
 import { AudioContextManager } from './utils'
+import { SonicCoalescer } from './coalescer'
+import { SoundRateLimiter } from './rate-limiter'
 import {
   SONIC_CHUNK_EVENT_NAME,
   SonicChunk,
@@ -7,8 +9,49 @@ import {
   AnomalyChunk,
   ZusoundSoundEvent,
   WatchPathConfig,
+  ArrayOperation,
+  getAlertLevel,
+  getAlertPriority,
 } from '../shared-types'
 
+/**
+ * Stable stereo offset (-0.3 to 0.3) derived from the store name, so that each named
+ * store is heard from its own position.
+ */
+function getStorePanOffset(storeName?: string): number {
+  if (!storeName) return 0
+  let hash = 0
+  for (let i = 0; i < storeName.length; i++) {
+    hash = (hash * 31 + storeName.charCodeAt(i)) | 0
+  }
+  return ((Math.abs(hash) % 7) - 3) * 0.1
+}
+
+/**
+ * Pick a motif for array changes: inserts rise, removals fall, pure reorders zigzag.
+ * Returns undefined when the array only had in-place updates.
+ */
+function getArrayMotif(
+  operations: ArrayOperation[]
+): Pick<SonicChunk, 'motif' | 'motifNotes'> | undefined {
+  let inserts = 0
+  let removals = 0
+  let moves = 0
+  for (const op of operations) {
+    if (op.type === 'insert') inserts++
+    else if (op.type === 'remove') removals++
+    else if (op.type === 'move') moves++
+  }
+
+  const toNotes = (count: number) =>
+    Math.max(AUDIO_CONFIG.MOTIF_NOTES.MIN, Math.min(AUDIO_CONFIG.MOTIF_NOTES.MAX, count + 1))
+
+  if (inserts > 0 && inserts >= removals) return { motif: 'rising', motifNotes: toNotes(inserts) }
+  if (removals > 0) return { motif: 'falling', motifNotes: toNotes(removals) }
+  if (moves > 0) return { motif: 'zigzag', motifNotes: toNotes(moves) }
+  return undefined
+}
+
 /**
  * Convert a diff object to sonic chunks that represent sounds
  * @param diff - Object containing changes to be sonified
@@ -66,7 +109,12 @@ export function diffToSonic<T extends DiffChunk>(
     // String length affects frequency
     const stringFactor = Math.min(diff.diff?.length || 0, 100) / 100
     frequency *= 1 + stringFactor * 0.15 // Up to 15% variation based on string length
-  } else if (diff.valueType === 'object' || diff.valueType === 'array') {
+  } else if (
+    diff.valueType === 'object' ||
+    diff.valueType === 'array' ||
+    diff.valueType === 'map' ||
+    diff.valueType === 'set'
+  ) {
     // Complex types get a distinctive sound
     frequency *= 1.25
   }
@@ -74,8 +122,10 @@ export function diffToSonic<T extends DiffChunk>(
   // --- Detune Calculation (based on value) ---
   let detuneCents = 0
   const valueOfType = diff.valueType // This is diff.valueType, not related to diff.type
+  // Dates and bigints carry a signed numeric delta, so they sound like numbers
+  const isNumeric = valueOfType === 'number' || valueOfType === 'bigint' || valueOfType === 'date'
 
-  if (valueOfType === 'number') {
+  if (isNumeric) {
     // Logarithmic scale for number magnitude, capped
     detuneCents = Math.min(Math.log1p(Math.abs(diff.diffPower)) * 50, 600)
   } else if (valueOfType === 'string') {
@@ -95,7 +145,7 @@ export function diffToSonic<T extends DiffChunk>(
     // Use diff.type here ('add', 'remove', 'change')
     waveType = 'triangle'
   } else {
-    if (valueOfType === 'number') {
+    if (isNumeric) {
       waveType = 'sine'
     } else if (valueOfType === 'string') {
       waveType = 'square'
@@ -135,17 +185,13 @@ export function diffToSonic<T extends DiffChunk>(
         enhancedWaveType = custom.type === 'custom' ? 'sine' : custom.type
       }
     } else {
-      // Apply default alert level enhancements
-      if (watchConfig.alertLevel === 'critical') {
-        enhancedMagnitude *= 1.5 // 50% louder
-        enhancedDetune += 200 // +200 cents for distinctiveness
-        enhancedDuration *= 1.3 // 30% longer
-        enhancedFrequency *= 1.1 // Slightly higher pitch
-      } else if (watchConfig.alertLevel === 'warning') {
-        enhancedMagnitude *= 1.2 // 20% louder
-        enhancedDetune += 100 // +100 cents for distinctiveness
-        enhancedDuration *= 1.1 // 10% longer
-        enhancedFrequency *= 1.05 // Slightly higher pitch
+      // Apply the alert level's sound modifiers
+      const modifiers = getAlertLevel(watchConfig.alertLevel)?.sound
+      if (modifiers) {
+        enhancedMagnitude *= modifiers.magnitude ?? 1
+        enhancedDetune += modifiers.detune ?? 0
+        enhancedDuration *= modifiers.duration ?? 1
+        enhancedFrequency *= modifiers.frequency ?? 1
       }
     }
   }
@@ -159,6 +205,10 @@ export function diffToSonic<T extends DiffChunk>(
     detune: Math.max(-600, Math.min(600, enhancedDetune)), // Cap detune range
     alertLevel: diff.alertLevel,
     isCriticalPath: !!watchConfig,
+    customVisual: watchConfig?.customVisual,
+    storeName: diff.storeName,
+    actionName: diff.actionName,
+    ...(diff.arrayOperations && getArrayMotif(diff.arrayOperations)),
   }
 
   return sonicChunk
@@ -242,6 +292,7 @@ export async function playSonicChunk(chunk: SonicChunk): Promise<boolean> {
         default:
           panValue = 0
       }
+      panValue += getStorePanOffset(chunk.storeName)
       panValue += Math.random() * 0.2 - 0.1
       pannerNode.pan.setValueAtTime(Math.max(-1, Math.min(1, panValue)), now)
 
@@ -369,25 +420,109 @@ export async function playSonicChunk(chunk: SonicChunk): Promise<boolean> {
   }
 }
 
+/**
+ * Play a sonic chunk as a short arpeggio following its motif.
+ * Dispatches the visualization event once for the whole motif.
+ * @param chunk - The sonic chunk to play, with `motif` set
+ * @returns Promise resolving to true if audio playback started, false otherwise.
+ */
+export async function playMotifSonicChunk(chunk: SonicChunk): Promise<boolean> {
+  if (typeof window !== 'undefined') {
+    const event: ZusoundSoundEvent = new CustomEvent(SONIC_CHUNK_EVENT_NAME, {
+      detail: { chunk },
+    })
+    window.dispatchEvent(event)
+  }
+
+  try {
+    const audioManager = AudioContextManager.getInstance()
+    const ctx = audioManager.getContext()
+
+    if (ctx.state !== 'running') {
+      const { resumed } = await audioManager.tryResumeAudioContext()
+      if (!resumed) return false
+    }
+
+    const now = ctx.currentTime
+    const noteCount = chunk.motifNotes ?? AUDIO_CONFIG.MOTIF_NOTES.MIN
+    const noteDuration = Math.max(chunk.duration, AUDIO_CONFIG.MIN_DURATION_MS) / 1000
+    const noteGap = AUDIO_CONFIG.STAGGER_DELAY_MS / 1000 / 2
+    const scale = AUDIO_CONFIG.SCALE
+
+    for (let i = 0; i < noteCount; i++) {
+      let step: number
+      if (chunk.motif === 'falling') {
+        step = scale[(noteCount - 1 - i) % scale.length]
+      } else if (chunk.motif === 'zigzag') {
+        step = i % 2 === 0 ? scale[0] : scale[3]
+      } else {
+        step = scale[i % scale.length]
+      }
+
+      const startTime = now + i * (noteDuration + noteGap)
+      const oscillator = ctx.createOscillator()
+      const gainNode = ctx.createGain()
+
+      oscillator.type = chunk.type === 'custom' ? 'sine' : chunk.type
+      oscillator.frequency.setValueAtTime(chunk.frequency * step, startTime)
+      oscillator.detune.setValueAtTime(chunk.detune, startTime)
+
+      gainNode.gain.setValueAtTime(0, startTime)
+      gainNode.gain.exponentialRampToValueAtTime(chunk.magnitude, startTime + 0.01)
+      gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + noteDuration)
+
+      oscillator.connect(gainNode)
+      gainNode.connect(ctx.destination)
+
+      oscillator.start(startTime)
+      oscillator.stop(startTime + noteDuration)
+      oscillator.onended = () => {
+        oscillator.disconnect()
+        gainNode.disconnect()
+      }
+    }
+
+    return true
+  } catch (err) {
+    console.error(`Motif playback failed for chunk ${chunk.id}:`, err)
+    return false
+  }
+}
+
 /**
  * Converts state changes into sound and triggers playback.
  * The visualizer component receives these events through the window event system.
  * @param diff - The state change to sonify
  * @param duration - Duration of the sound in milliseconds
  * @param watchConfig - Optional watch path configuration for enhanced feedback
+ * @param actionSound - Optional sound overrides for the action that made the change
+ * @param coalescer - Optional coalescer that groups this sound with others into a chord
+ * @param filter - Optional check called with the sonic chunk; returning false skips playback
  */
 export function sonifyChanges<T extends DiffChunk>(
   diff: T,
   duration: number,
-  watchConfig?: WatchPathConfig
+  watchConfig?: WatchPathConfig,
+  actionSound?: Partial<SonicChunk>,
+  coalescer?: SonicCoalescer,
+  filter?: (chunk: SonicChunk) => boolean
 ): void {
   try {
-    const sonicChunk = diffToSonic(diff, duration, watchConfig)
+    const sonicChunk = { ...diffToSonic(diff, duration, watchConfig), ...actionSound }
+    if (filter && !filter(sonicChunk)) return
+
+    const player = sonicChunk.motif ? playMotifSonicChunk : playSonicChunk
+    const play = (chunk: SonicChunk) => SoundRateLimiter.getInstance().submit(chunk, player)
+
+    // Grouped with the other changes of the same update when a coalescer is given
+    if (coalescer) {
+      coalescer.add(sonicChunk, play)
+      return
+    }
 
-    // Stagger playback slightly if multiple changes occur rapidly, though currently called per diffChunk
     // setTimeout is 0, so it's more about deferring to next tick.
     setTimeout(() => {
-      playSonicChunk(sonicChunk).catch(err => {
+      play(sonicChunk).catch(err => {
         console.error(`Error during scheduled playback for chunk ${sonicChunk.id}:`, err)
       })
     }, 0)
@@ -396,6 +531,92 @@ export function sonifyChanges<T extends DiffChunk>(
   }
 }
 
+/**
+ * Play a soft, short "wasted" tick for a redundant update, instead of an anomaly alert
+ */
+export function sonifyRedundantUpdate(
+  anomaly: AnomalyChunk,
+  customSound?: Partial<SonicChunk>,
+  filter?: (chunk: SonicChunk) => boolean
+): void {
+  const sonicChunk: SonicChunk = {
+    id: `redundant:${anomaly.path}`,
+    type: 'sine',
+    frequency: AUDIO_CONFIG.BASE_FREQUENCY * 16,
+    magnitude: 0.05,
+    duration: AUDIO_CONFIG.MIN_DURATION_MS,
+    detune: 0,
+    storeName: anomaly.storeName,
+    actionName: anomaly.actionName,
+    ...customSound,
+  }
+  if (filter && !filter(sonicChunk)) return
+
+  setTimeout(() => {
+    SoundRateLimiter.getInstance()
+      .submit(sonicChunk, playSonicChunk)
+      .catch(err => {
+        console.error(`Error during scheduled playback for chunk ${sonicChunk.id}:`, err)
+      })
+  }, 0)
+}
+
+/**
+ * Play a short, soft rising "all clear" for a resolved anomaly incident
+ */
+export function sonifyResolved(
+  resolved: AnomalyChunk,
+  customSound?: Partial<SonicChunk>,
+  filter?: (chunk: SonicChunk) => boolean
+): void {
+  const sonicChunk: SonicChunk = {
+    id: resolved.id,
+    type: 'sine',
+    frequency: AUDIO_CONFIG.BASE_FREQUENCY * 4,
+    magnitude: 0.25,
+    duration: 240,
+    detune: 0,
+    motif: 'rising',
+    motifNotes: 2,
+    storeName: resolved.storeName,
+    // Shares a sound budget with other resolutions of the same type
+    anomalyType: resolved.type,
+    ...customSound,
+  }
+  if (filter && !filter(sonicChunk)) return
+
+  setTimeout(() => {
+    SoundRateLimiter.getInstance()
+      .submit(sonicChunk, sonicChunk.motif ? playMotifSonicChunk : playSonicChunk)
+      .catch(err => {
+        console.error(`Error during scheduled playback for chunk ${sonicChunk.id}:`, err)
+      })
+  }, 0)
+}
+
+/**
+ * Play a brighter three-note "restored" arpeggio for an invariant that holds again,
+ * so it is not mistaken for an anomaly incident going quiet
+ */
+export function sonifyInvariantRestored(
+  resolved: AnomalyChunk,
+  customSound?: Partial<SonicChunk>,
+  filter?: (chunk: SonicChunk) => boolean
+): void {
+  sonifyResolved(
+    resolved,
+    {
+      type: 'triangle',
+      frequency: AUDIO_CONFIG.BASE_FREQUENCY * 6,
+      magnitude: 0.3,
+      duration: 180,
+      motifNotes: 3,
+      ...customSound,
+    },
+    filter
+  )
+}
+
 /**
  * Convert anomaly to distinct urgent sonic chunk
  */
@@ -404,17 +625,28 @@ export function anomalyToSonic(
   customSound?: Partial<SonicChunk>
 ): SonicChunk {
   const baseFreq = 1000 // Prominent warning frequency
-  const severity = anomaly.severity === 'critical' ? 1.5 : 1.0
+  // 1.0 for warnings, 1.5 for critical anomalies, up to 2.0 for higher priorities
+  const priority = getAlertPriority(anomaly.severity)
+  const severity = 1 + Math.min(1, Math.max(0, (priority - 1) * 0.5))
+  // Repeated incidents get slightly louder each time they alert
+  const escalation = 1 + Math.min(0.5, Math.log2(anomaly.occurrences ?? 1) * 0.1)
+  // The alert level's sound modifiers shape the urgent defaults
+  const modifiers = getAlertLevel(anomaly.severity)?.sound
 
   // Apply custom overrides or use urgent defaults
   const sonicChunk: SonicChunk = {
     id: anomaly.id,
     type: 'square', // Sharp electronic warning sound
-    frequency: customSound?.frequency ?? baseFreq * severity,
-    magnitude: customSound?.magnitude ?? Math.min(0.7 * severity, 1.0),
-    duration: customSound?.duration ?? 200 * severity, // Longer for attention
-    detune: customSound?.detune ?? 400, // High detune for urgency
+    frequency: customSound?.frequency ?? baseFreq * severity * (modifiers?.frequency ?? 1),
+    magnitude:
+      customSound?.magnitude ??
+      Math.min(0.7 * severity * escalation * (modifiers?.magnitude ?? 1), 1.0),
+    // Longer for attention
+    duration: customSound?.duration ?? 200 * severity * (modifiers?.duration ?? 1),
+    // High detune for urgency
+    detune: customSound?.detune ?? Math.max(-600, Math.min(600, 400 + (modifiers?.detune ?? 0))),
     alertLevel: anomaly.severity,
+    storeName: anomaly.storeName,
     isAnomaly: true,
     anomalyType: anomaly.type,
     ...(customSound && customSound),
@@ -470,10 +702,114 @@ async function playRapidChangePattern(chunk: SonicChunk): Promise<boolean> {
   }
 }
 
+/**
+ * Create alternating two-tone (trill) anomaly sound pattern for flip-flopping values
+ */
+async function playOscillationPattern(chunk: SonicChunk): Promise<boolean> {
+  try {
+    const audioManager = AudioContextManager.getInstance()
+    const ctx = audioManager.getContext()
+
+    if (ctx.state !== 'running') {
+      const { resumed } = await audioManager.tryResumeAudioContext()
+      if (!resumed) return false
+    }
+
+    const now = ctx.currentTime
+    const noteCount = 4 // A-B-A-B
+    const noteDuration = chunk.duration / 1000 / noteCount
+
+    for (let i = 0; i < noteCount; i++) {
+      const startTime = now + i * noteDuration
+      // Alternate between the base pitch and a fourth below
+      const frequency = i % 2 === 0 ? chunk.frequency : chunk.frequency * 0.75
+
+      const oscillator = ctx.createOscillator()
+      const gainNode = ctx.createGain()
+
+      oscillator.type = chunk.type === 'custom' ? 'square' : chunk.type
+      oscillator.frequency.setValueAtTime(frequency, startTime)
+      oscillator.detune.setValueAtTime(chunk.detune, startTime)
+
+      gainNode.gain.setValueAtTime(0, startTime)
+      gainNode.gain.exponentialRampToValueAtTime(chunk.magnitude, startTime + 0.005)
+      gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + noteDuration * 0.9)
+
+      oscillator.connect(gainNode)
+      gainNode.connect(ctx.destination)
+
+      oscillator.start(startTime)
+      oscillator.stop(startTime + noteDuration)
+    }
+
+    return true
+  } catch (err) {
+    console.error('Anomaly pattern playback failed:', err)
+    return false
+  }
+}
+
+/**
+ * Create dissonant tritone anomaly sound pattern for values that changed type
+ */
+async function playTypeChangePattern(chunk: SonicChunk): Promise<boolean> {
+  try {
+    const audioManager = AudioContextManager.getInstance()
+    const ctx = audioManager.getContext()
+
+    if (ctx.state !== 'running') {
+      const { resumed } = await audioManager.tryResumeAudioContext()
+      if (!resumed) return false
+    }
+
+    const now = ctx.currentTime
+    const duration = chunk.duration / 1000
+    // Both tones start together; the upper one jumps a tritone halfway through
+    const voices = [
+      { frequency: chunk.frequency, jumpTo: chunk.frequency },
+      { frequency: chunk.frequency * 1.5, jumpTo: chunk.frequency * Math.SQRT2 },
+    ]
+
+    for (const { frequency, jumpTo } of voices) {
+      const oscillator = ctx.createOscillator()
+      const gainNode = ctx.createGain()
+
+      oscillator.type = chunk.type === 'custom' ? 'sawtooth' : chunk.type
+      oscillator.frequency.setValueAtTime(frequency, now)
+      oscillator.frequency.setValueAtTime(jumpTo, now + duration / 2)
+      oscillator.detune.setValueAtTime(chunk.detune, now)
+
+      gainNode.gain.setValueAtTime(0, now)
+      gainNode.gain.exponentialRampToValueAtTime(chunk.magnitude / 2, now + 0.01)
+      gainNode.gain.exponentialRampToValueAtTime(0.001, now + duration)
+
+      oscillator.connect(gainNode)
+      gainNode.connect(ctx.destination)
+
+      oscillator.start(now)
+      oscillator.stop(now + duration)
+    }
+
+    return true
+  } catch (err) {
+    console.error('Anomaly pattern playback failed:', err)
+    return false
+  }
+}
+
 /**
  * Play anomaly-specific audio with urgent patterns
  */
 export async function playAnomalySonicChunk(chunk: SonicChunk): Promise<boolean> {
+  // Falling phrase for a broken invariant; the motif player dispatches its own event
+  if (chunk.anomalyType === 'invariant') {
+    return playMotifSonicChunk({
+      ...chunk,
+      motif: chunk.motif ?? 'falling',
+      motifNotes: chunk.motifNotes ?? 3,
+    })
+  }
+
   // Dispatch event for visualization first
   if (typeof window !== 'undefined') {
     const event: ZusoundSoundEvent = new CustomEvent(SONIC_CHUNK_EVENT_NAME, {
@@ -487,6 +823,16 @@ export async function playAnomalySonicChunk(chunk: SonicChunk): Promise<boolean>
     return playRapidChangePattern(chunk)
   }
 
+  // Alternating trill for flip-flopping values
+  if (chunk.anomalyType === 'oscillation') {
+    return playOscillationPattern(chunk)
+  }
+
+  // Dissonant interval for values that changed shape
+  if (chunk.anomalyType === 'type-change') {
+    return playTypeChangePattern(chunk)
+  }
+
   // Fallback to enhanced regular playback
   return playSonicChunk(chunk)
 }
@@ -494,14 +840,21 @@ export async function playAnomalySonicChunk(chunk: SonicChunk): Promise<boolean>
 /**
  * Convert anomaly to sound and trigger playback
  */
-export function sonifyAnomaly(anomaly: AnomalyChunk, customSound?: Partial<SonicChunk>): void {
+export function sonifyAnomaly(
+  anomaly: AnomalyChunk,
+  customSound?: Partial<SonicChunk>,
+  filter?: (chunk: SonicChunk) => boolean
+): void {
   try {
     const sonicChunk = anomalyToSonic(anomaly, customSound)
+    if (filter && !filter(sonicChunk)) return
 
     setTimeout(() => {
-      playAnomalySonicChunk(sonicChunk).catch(err => {
-        console.error(`Anomaly playback failed for ${sonicChunk.id}:`, err)
-      })
+      SoundRateLimiter.getInstance()
+        .submit(sonicChunk, playAnomalySonicChunk)
+        .catch(err => {
+          console.error(`Anomaly playback failed for ${sonicChunk.id}:`, err)
+        })
     }, 0)
   } catch (err) {
     console.error('Anomaly sonification setup failed:', err)
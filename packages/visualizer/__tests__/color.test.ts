@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { parseColor as ParseColor } from '../src/color'
+import { createColorContext } from './helpers'
+
+describe('parseColor', () => {
+  let parseColor: typeof ParseColor
+  let getContext: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    // The module caches its context and parsed colors
+    vi.resetModules()
+    ;({ parseColor } = await import('../src/color'))
+    getContext = vi.fn(() => createColorContext())
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      getContext as unknown as HTMLCanvasElement['getContext']
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('converts CSS colors to RGB channels from 0 to 1', () => {
+    expect(parseColor('red')).toEqual([1, 0, 0])
+    expect(parseColor('#0f0')).toEqual([0, 1, 0])
+    expect(parseColor('hsl(240, 100%, 50%)')).toEqual([0, 0, 1])
+  })
+
+  it('reads colors the browser serializes as rgba(), ignoring the alpha', () => {
+    expect(parseColor('rgba(255, 128, 0, 0.5)')).toEqual([1, 128 / 255, 0])
+  })
+
+  it('returns null for invalid colors', () => {
+    expect(parseColor('not-a-color')).toBeNull()
+    expect(parseColor('#ggg')).toBeNull()
+    expect(parseColor('')).toBeNull()
+  })
+
+  it('caches parsed colors and reuses one context', () => {
+    expect(parseColor('red')).toBe(parseColor('red'))
+    expect(parseColor('not-a-color')).toBeNull()
+    expect(parseColor('not-a-color')).toBeNull()
+    expect(getContext).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns null without a canvas context, and retries once one is available', () => {
+    getContext.mockReturnValueOnce(null)
+    expect(parseColor('red')).toBeNull()
+    expect(parseColor('red')).toEqual([1, 0, 0])
+  })
+})
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  AlertLevel,
+  CustomVisualConfig,
+  SONIC_CHUNK_EVENT_NAME,
+  SonicChunk,
+} from '../../shared-types'
+import { diffImpl } from '../../diff/diff'
+import { diffToSonic } from '../../sonification/sonification'
+import { Visualizer } from '../src/visualizer-core'
+import { createColorContext, createWebGLContext } from './helpers'
+
+describe('custom visuals', () => {
+  let uniforms: Map<string, number[]>
+  let frames: FrameRequestCallback[]
+  let visualizer: Visualizer
+
+  beforeEach(() => {
+    const webgl = createWebGLContext()
+    uniforms = webgl.uniforms
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(((type: string) =>
+      type === 'webgl' ? webgl.gl : createColorContext()) as HTMLCanvasElement['getContext'])
+
+    frames = []
+    vi.stubGlobal('requestAnimationFrame', (frame: FrameRequestCallback) => frames.push(frame))
+    vi.stubGlobal('cancelAnimationFrame', () => {})
+
+    visualizer = Visualizer.getInstance()
+    visualizer.notifyMounted()
+  })
+
+  afterEach(() => {
+    visualizer.cleanup()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  /** Dispatch a sonic chunk the way playback does, then draw one frame */
+  const render = (chunk: SonicChunk) => {
+    window.dispatchEvent(new CustomEvent(SONIC_CHUNK_EVENT_NAME, { detail: { chunk } }))
+    frames.shift()?.(performance.now())
+  }
+
+  /** Sonic chunk of a change on a watched path */
+  const watched = (customVisual: CustomVisualConfig, alertLevel: AlertLevel = 'warning') =>
+    diffToSonic({ ...diffImpl('status', 'error', 'ok'), alertLevel }, 100, {
+      path: 'status',
+      alertLevel,
+      customVisual,
+    })
+
+  it('carries the color and effect of a watched path to the shader uniforms', () => {
+    const chunk = watched({ color: 'orange', effect: 'flash', intensity: 'low' })
+    expect(chunk.customVisual).toEqual({ color: 'orange', effect: 'flash', intensity: 'low' })
+
+    render(chunk)
+    expect(uniforms.get('u_eventCount')).toEqual([1])
+    expect(uniforms.get('u_eventHasColor[0]')).toEqual([1])
+    expect(uniforms.get('u_eventColor[0]')).toEqual([1, 165 / 255, 0])
+    expect(uniforms.get('u_eventEffect[0]')).toEqual([3])
+    expect(uniforms.get('u_eventIntensity[0]')).toEqual([0.5])
+  })
+
+  it('draws no custom color for an invalid one, keeping the effect', () => {
+    render(watched({ color: 'not-a-color', effect: 'pulse' }))
+    expect(uniforms.get('u_eventHasColor[0]')).toEqual([0])
+    expect(uniforms.get('u_eventEffect[0]')).toEqual([2])
+  })
+
+  it('draws unknown effects without an effect', () => {
+    render(watched({ effect: 'sparkle' }))
+    expect(uniforms.get('u_eventEffect[0]')).toEqual([0])
+  })
+
+  it('fills in the alert level visual around a partial custom visual', () => {
+    render(watched({ color: 'red' }, 'critical'))
+    expect(uniforms.get('u_eventColor[0]')).toEqual([1, 0, 0])
+    expect(uniforms.get('u_eventEffect[0]')).toEqual([2])
+    expect(uniforms.get('u_eventIntensity[0]')).toEqual([1.6])
+    expect(uniforms.get('u_eventAlertLevel[0]')).toEqual([2])
+  })
+})
@@ -0,0 +1,45 @@
+/** How a browser serializes the `fillStyle` colors used in the tests; anything else is invalid */
+const SERIALIZED: Record<string, string> = {
+  '#000000': '#000000',
+  '#ffffff': '#ffffff',
+  red: '#ff0000',
+  orange: '#ffa500',
+  '#0f0': '#00ff00',
+  'hsl(240, 100%, 50%)': '#0000ff',
+  'rgba(255, 128, 0, 0.5)': 'rgba(255, 128, 0, 0.5)',
+}
+
+/** Canvas 2D context that keeps its `fillStyle` when given an invalid color, like browsers do */
+export function createColorContext(): CanvasRenderingContext2D {
+  let fillStyle = '#000000'
+  return {
+    get fillStyle() {
+      return fillStyle
+    },
+    set fillStyle(color: string) {
+      fillStyle = SERIALIZED[color] ?? fillStyle
+    },
+  } as unknown as CanvasRenderingContext2D
+}
+
+/**
+ * WebGL context that accepts every call and records the last value set on each uniform,
+ * by uniform name.
+ */
+export function createWebGLContext() {
+  const uniforms = new Map<string, number[]>()
+  const setUniform = (location: string, ...values: number[]) => uniforms.set(location, values)
+  const methods: Record<string, unknown> = {
+    getUniformLocation: (_program: unknown, name: string) => name,
+    getProgramParameter: () => true,
+    getShaderParameter: () => true,
+    getExtension: () => null,
+    uniform1i: setUniform,
+    uniform1f: setUniform,
+    uniform3f: setUniform,
+  }
+  const gl = new Proxy({} as WebGLRenderingContext, {
+    get: (_target, property: string) => methods[property] ?? (() => ({})),
+  })
+  return { gl, uniforms }
+}
@@ -0,0 +1,51 @@
+/** RGB color with channels from 0 to 1, as passed to the shader */
+export type RGBColor = [number, number, number]
+
+const colorCache = new Map<string, RGBColor | null>()
+let colorContext: CanvasRenderingContext2D | null = null
+
+/** Canvas 2D context used to let the browser parse CSS colors */
+const getColorContext = (): CanvasRenderingContext2D | null => {
+  if (!colorContext && typeof document !== 'undefined') {
+    colorContext = document.createElement('canvas').getContext('2d')
+  }
+  return colorContext
+}
+
+/** Read back a `fillStyle`, which the browser serializes as `#rrggbb` or `rgba(r, g, b, a)` */
+const parseFillStyle = (fillStyle: string): RGBColor | null => {
+  const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(fillStyle)
+  if (hex) {
+    return [parseInt(hex[1], 16) / 255, parseInt(hex[2], 16) / 255, parseInt(hex[3], 16) / 255]
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/i.exec(fillStyle)
+  if (rgb) {
+    return [Number(rgb[1]) / 255, Number(rgb[2]) / 255, Number(rgb[3]) / 255]
+  }
+  return null
+}
+
+/**
+ * Convert any CSS color (name, hex, rgb(), hsl(), ...) to RGB.
+ * @returns The color, or null if it is not a valid CSS color
+ */
+export const parseColor = (color: string): RGBColor | null => {
+  const cached = colorCache.get(color)
+  if (cached !== undefined) return cached
+
+  const context = getColorContext()
+  if (!context) return null
+
+  // An invalid color leaves fillStyle untouched, so it reads back differently after
+  // starting from two different colors
+  context.fillStyle = '#000000'
+  context.fillStyle = color
+  const fromBlack = String(context.fillStyle)
+  context.fillStyle = '#ffffff'
+  context.fillStyle = color
+  const fromWhite = String(context.fillStyle)
+
+  const parsed = fromBlack === fromWhite ? parseFillStyle(fromBlack) : null
+  colorCache.set(color, parsed)
+  return parsed
+}
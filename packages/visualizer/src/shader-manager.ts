@@ -1,5 +1,7 @@
-import type { SonicChunk } from '../../shared-types'
+import { getAlertLevel, getAlertPriority } from '../../shared-types'
+import type { CustomVisualConfig, SonicChunk } from '../../shared-types'
 import { MAX_VISIBLE_EVENTS } from './config'
+import { parseColor } from './color'
 import { VisualizerEvent } from './visualizer-core'
 
 /**
@@ -36,8 +38,12 @@ export class VisualizerShaderManager {
     uniform float u_eventMagnitude[${MAX_VISIBLE_EVENTS}];
     uniform float u_eventDetune[${MAX_VISIBLE_EVENTS}];
     uniform int u_eventType[${MAX_VISIBLE_EVENTS}]; // 0=sine, 1=square, 2=sawtooth, 3=triangle
-    uniform int u_eventAlertLevel[${MAX_VISIBLE_EVENTS}]; // 0=none, 1=warning, 2=critical
+    uniform int u_eventAlertLevel[${MAX_VISIBLE_EVENTS}]; // Priority: 0=none, 1=warning, 2+=critical
     uniform bool u_eventIsCriticalPath[${MAX_VISIBLE_EVENTS}];
+    uniform bool u_eventHasColor[${MAX_VISIBLE_EVENTS}];
+    uniform vec3 u_eventColor[${MAX_VISIBLE_EVENTS}];
+    uniform int u_eventEffect[${MAX_VISIBLE_EVENTS}]; // 0=none, 1=glow, 2=pulse, 3=flash
+    uniform float u_eventIntensity[${MAX_VISIBLE_EVENTS}]; // Strength of the effect
     
     // Function to get color based on waveform type
     vec3 getTypeColor(int type) {
@@ -47,7 +53,7 @@ export class VisualizerShaderManager {
       return vec3(1.0, 0.3, 0.8); // triangle - pink
     }
     
-    // Function to get alert color based on alert level
+    // Alert color by priority, for alert levels registered without a color
     vec3 getAlertColor(int alertLevel) {
       if (alertLevel == 2) return vec3(1.0, 0.1, 0.1); // critical - bright red
       if (alertLevel == 1) return vec3(1.0, 0.7, 0.2); // warning - orange/amber
@@ -86,6 +92,8 @@ export class VisualizerShaderManager {
         int type = u_eventType[i];
         int alertLevel = u_eventAlertLevel[i];
         bool isCriticalPath = u_eventIsCriticalPath[i];
+        int effect = u_eventEffect[i];
+        float intensity = u_eventIntensity[i];
         
         // Calculate visibility based on progress (fade in/out)
         float fadeIn = smoothstep(0.0, 0.1, progress);
@@ -96,15 +104,16 @@ export class VisualizerShaderManager {
         if (isCriticalPath) {
           if (alertLevel == 2) { // critical
             visibility *= 1.5; // 50% more visible
-            // Add pulsing effect for critical events
-            visibility *= 1.0 + 0.3 * sin(progress * 20.0);
           } else if (alertLevel == 1) { // warning
             visibility *= 1.2; // 20% more visible
-            // Add gentle glow for warning events
-            visibility *= 1.0 + 0.15 * sin(progress * 10.0);
           }
         }
         
+        // Pulse: the ring throbs while it expands
+        if (effect == 2) {
+          visibility *= 1.0 + 0.3 * intensity * sin(progress * 20.0);
+        }
+        
         // Calculate effect based on distance from center and wave shape
         float dist = length(p);
         float ringWidth = 0.05 * magnitude; // Ring width depends on magnitude
@@ -123,24 +132,38 @@ export class VisualizerShaderManager {
         // Add ripples based on wave shape and frequency
         float ripples = getWaveShape(type, dist * 10.0 * scaledFreq);
         
-        // Choose color based on alert level or default type color
+        // Glow: a soft halo fading out on both sides of the ring
+        float halo = 0.0;
+        if (effect == 1) {
+          halo = 0.5 * intensity * exp(-abs(dist - ringSize) / (ringWidth * 4.0 + 0.02));
+        }
+        
+        // Flash: the whole disc lights up right after the event starts
+        float flash = 0.0;
+        if (effect == 3) {
+          flash = 0.6 * intensity * (1.0 - smoothstep(0.0, 0.15, progress)) * (1.0 - dist);
+        }
+        
+        // Choose the custom color, the alert level color or the default type color
         vec3 eventColor;
-        if (isCriticalPath && alertLevel > 0) {
+        if (u_eventHasColor[i]) {
+          eventColor = u_eventColor[i];
+        } else if (isCriticalPath && alertLevel > 0) {
           eventColor = getAlertColor(alertLevel);
         } else {
           eventColor = getTypeColor(type);
         }
         
         // Combine ring and ripples, apply visibility and magnitude
-        float eventEffect = (ring * 0.8 + ripples * 0.2) * visibility * magnitude;
+        float eventEffect = (ring * 0.8 + ripples * 0.2 + halo) * visibility * magnitude;
         
         // Enhanced intensity for critical paths
         if (isCriticalPath) {
           eventEffect *= (alertLevel == 2) ? 1.8 : 1.3;
         }
         
-        // Add event's color contribution
-        color += eventColor * eventEffect;
+        // Add event's color contribution; the flash ignores the fade-in
+        color += eventColor * (eventEffect + max(0.0, flash));
       }
       
       gl_FragColor = vec4(color, alpha);
@@ -234,6 +257,22 @@ export class VisualizerShaderManager {
           this.program,
           `u_eventIsCriticalPath[${i}]`
         )
+        this.uniforms[`u_eventHasColor[${i}]`] = this.gl.getUniformLocation(
+          this.program,
+          `u_eventHasColor[${i}]`
+        )
+        this.uniforms[`u_eventColor[${i}]`] = this.gl.getUniformLocation(
+          this.program,
+          `u_eventColor[${i}]`
+        )
+        this.uniforms[`u_eventEffect[${i}]`] = this.gl.getUniformLocation(
+          this.program,
+          `u_eventEffect[${i}]`
+        )
+        this.uniforms[`u_eventIntensity[${i}]`] = this.gl.getUniformLocation(
+          this.program,
+          `u_eventIntensity[${i}]`
+        )
       }
 
       return true
@@ -301,10 +340,16 @@ export class VisualizerShaderManager {
       custom: 3,
     }
 
-    const alertLevelMapping = {
-      none: 0,
-      warning: 1,
-      critical: 2,
+    const effectMapping: Record<string, number> = {
+      glow: 1,
+      pulse: 2,
+      flash: 3,
+    }
+
+    const intensityMapping: Record<NonNullable<CustomVisualConfig['intensity']>, number> = {
+      low: 0.5,
+      medium: 1.0,
+      high: 1.6,
     }
 
     for (let i = 0; i < MAX_VISIBLE_EVENTS; i++) {
@@ -315,6 +360,10 @@ export class VisualizerShaderManager {
       const uniformType = this.uniforms[`u_eventType[${i}]`]
       const uniformAlertLevel = this.uniforms[`u_eventAlertLevel[${i}]`]
       const uniformIsCriticalPath = this.uniforms[`u_eventIsCriticalPath[${i}]`]
+      const uniformHasColor = this.uniforms[`u_eventHasColor[${i}]`]
+      const uniformColor = this.uniforms[`u_eventColor[${i}]`]
+      const uniformEffect = this.uniforms[`u_eventEffect[${i}]`]
+      const uniformIntensity = this.uniforms[`u_eventIntensity[${i}]`]
 
       if (i < events.length) {
         const event = events[i]
@@ -325,17 +374,36 @@ export class VisualizerShaderManager {
         this.gl.uniform1f(uniformDetune, chunk.detune)
         this.gl.uniform1i(uniformType, typeMapping[chunk.type] ?? 3) // Default to triangle if type is unknown
 
-        // Map alert level to integer for shader
-        const alertLevelInt = chunk.alertLevel ? alertLevelMapping[chunk.alertLevel] : 0
-        this.gl.uniform1i(uniformAlertLevel, alertLevelInt)
+        // Map alert level to its priority, capped at 2 where the shader tops out
+        const priority = getAlertPriority(chunk.alertLevel)
+        this.gl.uniform1i(uniformAlertLevel, priority > 0 ? Math.min(2, Math.ceil(priority)) : 0)
 
         // Convert boolean to integer for shader (WebGL doesn't have native boolean uniforms in older versions)
         this.gl.uniform1i(uniformIsCriticalPath, chunk.isCriticalPath ? 1 : 0)
+
+        // Custom visual, then the alert level's color on watched paths and anomalies;
+        // invalid colors fall back to the shader's alert level or type color
+        const visual = event.customVisual
+        const color =
+          visual?.color ??
+          (chunk.isCriticalPath || chunk.isAnomaly
+            ? getAlertLevel(chunk.alertLevel)?.color
+            : undefined)
+        const rgb = color ? parseColor(color) : null
+        this.gl.uniform1i(uniformHasColor, rgb ? 1 : 0)
+        if (rgb) this.gl.uniform3f(uniformColor, rgb[0], rgb[1], rgb[2])
+        this.gl.uniform1i(uniformEffect, visual?.effect ? (effectMapping[visual.effect] ?? 0) : 0)
+        this.gl.uniform1f(
+          uniformIntensity,
+          visual?.intensity ? (intensityMapping[visual.intensity] ?? 1.0) : 1.0
+        )
       } else {
         // Mark remaining uniform slots as inactive (progress >= 1.0)
         this.gl.uniform1f(uniformProgress, 1.0)
         this.gl.uniform1i(uniformAlertLevel, 0)
         this.gl.uniform1i(uniformIsCriticalPath, 0)
+        this.gl.uniform1i(uniformHasColor, 0)
+        this.gl.uniform1i(uniformEffect, 0)
       }
     }
   }
@@ -4,6 +4,8 @@ import {
   SONIC_CHUNK_EVENT_NAME,
   SonicChunk,
   AlertLevel,
+  CustomVisualConfig,
+  getAlertLevel,
 } from '../../shared-types'
 import { VisualizerShaderManager } from './shader-manager'
 import { EVENT_LIFETIME_MS, MAX_VISIBLE_EVENTS, VISUALIZER_SIZE } from './config'
@@ -18,12 +20,14 @@ export interface VisualizerEvent {
   alertLevel?: AlertLevel
   /** Flag indicating this is from a critical path watcher */
   isCriticalPath?: boolean
-  /** Optional custom visual properties */
-  customVisual?: {
-    color?: string
-    intensity?: 'low' | 'medium' | 'high'
-    effect?: 'glow' | 'pulse' | 'flash'
-  }
+  /** Custom visual properties, falling back to defaults for the alert level */
+  customVisual?: CustomVisualConfig
+}
+
+/** Custom visual of a chunk, with defaults for its alert level filling the gaps */
+const getCustomVisual = (chunk: SonicChunk): CustomVisualConfig | undefined => {
+  const defaults = getAlertLevel(chunk.alertLevel)?.visual
+  return chunk.customVisual ? { ...defaults, ...chunk.customVisual } : defaults
 }
 
 /**
@@ -130,15 +134,7 @@ export class Visualizer {
       getProgress: () => Math.min(1, (performance.now() - event.startTime) / EVENT_LIFETIME_MS),
       alertLevel: chunk.alertLevel,
       isCriticalPath: chunk.isCriticalPath,
-      // Extract custom visual properties if available
-      // Note: customVisual properties would come from the watchConfig in the original DiffChunk
-      // For now, we'll use default enhancements based on alert level
-      customVisual: chunk.alertLevel
-        ? {
-            intensity: chunk.alertLevel === 'critical' ? 'high' : 'medium',
-            effect: chunk.alertLevel === 'critical' ? 'pulse' : 'glow',
-          }
-        : undefined,
+      customVisual: getCustomVisual(chunk),
     }
 
     // Add the new event and maintain the maximum queue size
@@ -6,5 +6,9 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     include: ['packages/**/__tests__/**/*.test.ts'],
+    typecheck: {
+      enabled: true,
+      include: ['packages/**/__tests__/**/*.test-d.ts'],
+    },
   },
 })